@@ -1,4 +1,14 @@
 export * from './lib/decorators';
 export * from './lib/services';
 export * from './lib/cqrs-module';
+export * from './lib/cqrs-module.options';
 export * from './lib/exceptions';
+export * from './lib/middlewares';
+export * from './lib/idempotency';
+export * from './lib/cache';
+export * from './lib/schema';
+export * from './lib/filters';
+export * from './lib/metrics';
+export * from './lib/tracing';
+export * from './lib/testing';
+export * from './lib/results';
@@ -0,0 +1,66 @@
+import { InMemoryQueryCache } from './in-memory-query.cache';
+
+describe('(Unit) InMemoryQueryCache', () => {
+  describe('#get()', () => {
+    it('should return undefined on a cache miss', async () => {
+      // Arrange
+      const cache = new InMemoryQueryCache();
+      // Act
+      const entry = await cache.get('key');
+      // Assert
+      expect(entry).toBeUndefined();
+    });
+
+    it('should return a cached result', async () => {
+      // Arrange
+      const cache = new InMemoryQueryCache();
+      await cache.set('key', undefined, { ttl: 1000, tags: [] });
+      // Act
+      const entry = await cache.get('key');
+      // Assert
+      expect(entry).toEqual({ value: undefined });
+    });
+
+    it('should not return an expired result', async () => {
+      // Arrange
+      const cache = new InMemoryQueryCache();
+      await cache.set('key', 42, { ttl: -1, tags: [] });
+      // Act
+      const entry = await cache.get('key');
+      // Assert
+      expect(entry).toBeUndefined();
+    });
+  });
+
+  describe('#set()', () => {
+    it('should evict the least recently used result', async () => {
+      // Arrange
+      const cache = new InMemoryQueryCache(2);
+      await cache.set('first', 1, { ttl: 1000, tags: [] });
+      await cache.set('second', 2, { ttl: 1000, tags: [] });
+      await cache.get('first');
+      // Act
+      await cache.set('third', 3, { ttl: 1000, tags: [] });
+      // Assert
+      await expect(cache.get('first')).resolves.toEqual({ value: 1 });
+      await expect(cache.get('second')).resolves.toBeUndefined();
+      await expect(cache.get('third')).resolves.toEqual({ value: 3 });
+    });
+  });
+
+  describe('#invalidate()', () => {
+    it('should remove the results cached with any of the tags', async () => {
+      // Arrange
+      const cache = new InMemoryQueryCache();
+      await cache.set('first', 1, { ttl: 1000, tags: ['users'] });
+      await cache.set('second', 2, { ttl: 1000, tags: ['orders'] });
+      await cache.set('third', 3, { ttl: 1000, tags: ['products'] });
+      // Act
+      await cache.invalidate(['users', 'orders']);
+      // Assert
+      await expect(cache.get('first')).resolves.toBeUndefined();
+      await expect(cache.get('second')).resolves.toBeUndefined();
+      await expect(cache.get('third')).resolves.toEqual({ value: 3 });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  QueryCache,
+  QueryCacheEntry,
+  QueryCacheSetOptions,
+} from './query.cache';
+
+type InMemoryQueryCacheItem = {
+  value: unknown;
+  tags: string[];
+  expiresAt: number;
+};
+
+/**
+ * Keeps the query results in the process memory. When the cache is full,
+ * the least recently used result is evicted.
+ */
+export class InMemoryQueryCache extends QueryCache {
+  // The Map keeps the insertion order, so the first item is the least
+  // recently used one.
+  private readonly items = new Map<string, InMemoryQueryCacheItem>();
+
+  private readonly keysByTag = new Map<string, Set<string>>();
+
+  constructor(private readonly maxEntries = 1000) {
+    super();
+  }
+
+  public async get(key: string): Promise<QueryCacheEntry | undefined> {
+    const item = this.items.get(key);
+
+    if (!item) {
+      return undefined;
+    } else if (item.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+
+    // Move the item to the end of the map as the most recently used one.
+    this.items.delete(key);
+    this.items.set(key, item);
+
+    return { value: item.value };
+  }
+
+  public async set(
+    key: string,
+    value: unknown,
+    options: QueryCacheSetOptions,
+  ): Promise<void> {
+    this.delete(key);
+    this.items.set(key, {
+      value,
+      tags: options.tags,
+      expiresAt: Date.now() + options.ttl,
+    });
+
+    for (const tag of options.tags) {
+      const keys = this.keysByTag.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.keysByTag.set(tag, keys);
+    }
+
+    while (this.items.size > this.maxEntries) {
+      const leastRecentlyUsedKey = this.items.keys().next().value as string;
+      this.delete(leastRecentlyUsedKey);
+    }
+  }
+
+  public async invalidate(tags: string[]): Promise<void> {
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        this.delete(key);
+      }
+    }
+  }
+
+  private delete(key: string): void {
+    const item = this.items.get(key);
+
+    if (!item) {
+      return;
+    }
+
+    this.items.delete(key);
+
+    for (const tag of item.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+
+      if (keys?.size === 0) {
+        this.keysByTag.delete(tag);
+      }
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from './query.cache';
+export * from './in-memory-query.cache';
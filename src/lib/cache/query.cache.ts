@@ -0,0 +1,38 @@
+/**
+ * A cached query result. The wrapper allows to cache `undefined` results.
+ */
+export type QueryCacheEntry = {
+  value: unknown;
+};
+
+export type QueryCacheSetOptions = {
+  /**
+   * How long in milliseconds the result is cached.
+   */
+  ttl: number;
+  /**
+   * Tags used to invalidate the cached result.
+   */
+  tags: string[];
+};
+
+/**
+ * A storage of query results. The abstract class serves also as an injection
+ * token of the cache.
+ */
+export abstract class QueryCache {
+  /**
+   * Returns the cached result or `undefined` on a cache miss.
+   */
+  public abstract get(key: string): Promise<QueryCacheEntry | undefined>;
+
+  public abstract set(
+    key: string,
+    value: unknown,
+    options: QueryCacheSetOptions,
+  ): Promise<void>;
+  /**
+   * Removes all results cached with any of the tags.
+   */
+  public abstract invalidate(tags: string[]): Promise<void>;
+}
@@ -0,0 +1,164 @@
+import { LoggerService, ModuleMetadata, Type } from '@nestjs/common';
+import { ValidatorOptions } from 'class-validator';
+import { ClassTransformOptions } from 'class-transformer';
+import { OperationExecutor } from './services/operation-builder.service';
+import { OperationMiddleware } from './middlewares/operation.middleware';
+import { OperationErrorMapping } from './middlewares/exception-mapping.middleware';
+import { IdempotencyStore } from './idempotency/idempotency.store';
+import { QueryCache } from './cache/query.cache';
+import { CqrsTracer } from './tracing/cqrs.tracer';
+import { OperationLogLevels } from './services/operation-logger.service';
+import { ResultValidationMode } from './results/result-validation';
+
+/**
+ * Injection token of the options passed to `CqrsFactoryModule.forRoot()`
+ * or `CqrsFactoryModule.forRootAsync()`.
+ */
+export const CQRS_FACTORY_ROOT_OPTIONS = Symbol('CQRS_FACTORY_ROOT_OPTIONS');
+/**
+ * Injection token of the options passed to `CqrsFactoryModule.forFeature()`.
+ */
+export const CQRS_FACTORY_FEATURE_OPTIONS = Symbol(
+  'CQRS_FACTORY_FEATURE_OPTIONS',
+);
+/**
+ * Injection token of the effective options used by the factories and loggers
+ * of a module. (The root options merged with the feature overrides.)
+ */
+export const CQRS_FACTORY_MODULE_OPTIONS = Symbol(
+  'CQRS_FACTORY_MODULE_OPTIONS',
+);
+
+export interface CqrsFactoryModuleOptions {
+  /**
+   * A logger used by the `CommandLogger` and `QueryLogger`. It can be either
+   * a logger instance or a logger class, which is instantiated with the
+   * `loggerContext`. Set to `false` to disable the operation logging.
+   */
+  logger?: LoggerService | Type<LoggerService> | false;
+  /**
+   * The context of the default logger. (Default: `cqrs`)
+   */
+  loggerContext?: string;
+  /**
+   * Adds the operation serialized by the class-transformer to the logs.
+   * The excluded properties are omitted and the sensitive ones are redacted.
+   * Operations can opt in or out with the `log` decorator option.
+   * (Default: `false`)
+   */
+  logPayload?: boolean;
+  /**
+   * Adds a summary of the result to the success logs. Operations can opt in
+   * or out with the `log` decorator option. (Default: `false`)
+   */
+  logResult?: boolean;
+  /**
+   * The maximal length of the logged result summary. A longer summary is
+   * truncated. (Default: 200)
+   */
+  logResultMaxLength?: number;
+  /**
+   * The log levels of the operation outcomes, e.g. to log the invalid
+   * operations as warnings. (Default: `log` for the successes and `error` for
+   * the failures)
+   */
+  logLevels?: OperationLogLevels;
+  /**
+   * The part of the successful executions which are logged, between 0 and 1.
+   * The failures and the slow executions are always logged. (Default: 1)
+   */
+  logSuccessSampleRate?: number;
+  /**
+   * The duration in milliseconds from which a successful execution is logged
+   * as a `warn` with the `slow` type. Operations can override it with the
+   * `slowThresholdMs` decorator option. (Default: no threshold)
+   */
+  slowThresholdMs?: number;
+  /**
+   * The upper bounds in seconds of the latency histogram buckets collected
+   * by the `CqrsMetrics`. (Default: `DEFAULT_CQRS_METRICS_BUCKETS`)
+   */
+  metricsBuckets?: number[];
+  /**
+   * Opens a span for every operation execution with the child spans of the
+   * validation and the handler execution. (Default: no tracing)
+   */
+  tracer?: CqrsTracer;
+  /**
+   * Options passed to the class-validator when an operation is validated.
+   */
+  validatorOptions?: ValidatorOptions;
+  /**
+   * Options passed to the class-transformer when an operation is built
+   * from its plain state.
+   */
+  transformOptions?: ClassTransformOptions;
+  /**
+   * How the results of the operations with the `returns` decorator option
+   * are treated when invalid. `strict` fails the execution with the
+   * `INVALID_RESULT` error code and `lenient` logs a warning.
+   * (Default: `strict`)
+   */
+  resultValidation?: ResultValidationMode;
+  /**
+   * Options passed to the class-validator when a result is validated. (The
+   * `validatorOptions` of the operations do not apply to the results.)
+   */
+  resultValidatorOptions?: ValidatorOptions;
+  /**
+   * Options passed to the class-transformer when a result is transformed
+   * into the `returns` class. (The `transformOptions` of the operations do
+   * not apply to the results.)
+   */
+  resultTransformOptions?: ClassTransformOptions;
+  /**
+   * Replaces the `CommandBus` as the executor of all commands.
+   */
+  commandExecutor?: OperationExecutor<any, any>;
+  /**
+   * Replaces the `QueryBus` as the executor of all queries.
+   */
+  queryExecutor?: OperationExecutor<any, any>;
+  /**
+   * The outermost middlewares of every operation. When set, the list replaces
+   * the `DEFAULT_OPERATION_MIDDLEWARES`, so the built-in logging and exception
+   * mapping middlewares have to be listed explicitly to be kept.
+   */
+  middlewares?: OperationMiddleware[];
+  /**
+   * Maps errors raised by the handlers of all operations into the operation
+   * exceptions. They are tried after the `maps` of the operation. A factory
+   * name is skipped for exceptions which do not declare it.
+   */
+  errorMappings?: OperationErrorMapping<any>[];
+  /**
+   * The default time in milliseconds after which an operation execution is
+   * aborted with the `TIMEOUT` error code. (Default: no timeout)
+   */
+  timeout?: number;
+  /**
+   * The store of idempotent command outcomes shared by the root and the
+   * feature modules. (Default: `InMemoryIdempotencyStore`)
+   */
+  idempotencyStore?: IdempotencyStore;
+  /**
+   * The cache of query results shared by the query and command factories.
+   * (Default: `InMemoryQueryCache`)
+   */
+  queryCache?: QueryCache;
+  /**
+   * Verifies on the application bootstrap that every declared operation has
+   * exactly one handler and every handler handles a declared operation.
+   * The bootstrap fails with the `OperationVerificationException` otherwise.
+   * (Default: `false`)
+   */
+  strict?: boolean;
+}
+
+export interface CqrsFactoryModuleAsyncOptions {
+  imports?: ModuleMetadata['imports'];
+  useFactory: (
+    ...args: any[]
+  ) => CqrsFactoryModuleOptions | Promise<CqrsFactoryModuleOptions>;
+  inject?: any[];
+}
@@ -0,0 +1,356 @@
+import {
+  Global,
+  INestApplicationContext,
+  Injectable,
+  Logger,
+  Module,
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { CqrsFactoryModule } from './cqrs-module';
+import {
+  CommandFactory,
+  CommandLogger,
+  OperationRegistry,
+  QueryFactory,
+  QueryLogger,
+} from './services';
+import { Command, CommandHandler, Query } from './decorators';
+import { CqrsMetrics } from './metrics';
+import { QueryCache } from './cache';
+import { IdempotencyStore } from './idempotency';
+
+describe('(Unit) CqrsFactoryModule', () => {
+  let app: INestApplicationContext | undefined;
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+  });
+
+  it('should provide the factories without options', async () => {
+    // Arrange
+    @Module({ imports: [CqrsFactoryModule] })
+    class AppModule {}
+    // Act
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    // Assert
+    expect(app.get(CommandFactory)).toBeInstanceOf(CommandFactory);
+    expect(app.get(QueryFactory)).toBeInstanceOf(QueryFactory);
+  });
+
+  it('should register the discovered operation handlers', async () => {
+    // Arrange
+    @Command()
+    class TestCommand {}
+    @CommandHandler(TestCommand)
+    class TestCommandHandler {
+      public async execute() {
+        return 42;
+      }
+    }
+    @Module({
+      imports: [CqrsFactoryModule.forRoot()],
+      providers: [TestCommandHandler],
+    })
+    class AppModule {}
+    // Act
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    // Assert
+    expect(app.get(OperationRegistry).get('TestCommand')?.handlerCtor).toBe(
+      TestCommandHandler,
+    );
+  });
+
+  it('should log with a globally provided Logger', async () => {
+    // Arrange
+    const logger = new Logger('app');
+    @Global()
+    @Module({
+      providers: [{ provide: Logger, useValue: logger }],
+      exports: [Logger],
+    })
+    class LoggerModule {}
+    @Module({ imports: [LoggerModule, CqrsFactoryModule] })
+    class AppModule {}
+    // Act
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    // Assert
+    expect(app.get(CommandLogger).logger).toBe(logger);
+    expect(app.get(QueryLogger).logger).toBe(logger);
+  });
+
+  it('should prefer the logger of the module options to a global Logger', async () => {
+    // Arrange
+    const logger = new Logger('app');
+    const optionsLogger = new Logger('cqrs');
+    @Global()
+    @Module({
+      providers: [{ provide: Logger, useValue: logger }],
+      exports: [Logger],
+    })
+    class LoggerModule {}
+    @Module({
+      imports: [
+        LoggerModule,
+        CqrsFactoryModule.forRoot({ logger: optionsLogger }),
+      ],
+    })
+    class AppModule {}
+    // Act
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    // Assert
+    expect(app.get(CommandLogger).logger).toBe(optionsLogger);
+    expect(app.get(QueryLogger).logger).toBe(optionsLogger);
+  });
+
+  it('should prefer the logger context of the module options to a global Logger', async () => {
+    // Arrange
+    @Global()
+    @Module({
+      providers: [{ provide: Logger, useValue: new Logger('app') }],
+      exports: [Logger],
+    })
+    class LoggerModule {}
+    @Module({
+      imports: [
+        LoggerModule,
+        CqrsFactoryModule.forRoot({ loggerContext: 'operations' }),
+      ],
+    })
+    class AppModule {}
+    // Act
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    // Assert
+    const logger = app.get(CommandLogger).logger as Logger;
+    expect(logger['context']).toBe('operations');
+  });
+
+  it('should collect the metrics of the executed operations', async () => {
+    // Arrange
+    @Command()
+    class TestCommand {}
+    const commandExecutor = { execute: jest.fn().mockResolvedValue(42) };
+    @Module({ imports: [CqrsFactoryModule.forRoot({ commandExecutor })] })
+    class AppModule {}
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    // Act
+    await app.get(CommandFactory).create(TestCommand).execute();
+    // Assert
+    expect(app.get(CqrsMetrics).toPrometheus()).toContain(
+      'cqrs_operations_total{kind="command",name="TestCommand",outcome="success"} 1',
+    );
+  });
+
+  it('should invalidate the cached queries by the commands', async () => {
+    // Arrange
+    @Query({ cache: { ttl: 1000, tags: ['users'] } })
+    class GetUsers {}
+    @Command({ invalidates: ['users'] })
+    class CreateUser {}
+    const queryExecutor = { execute: jest.fn().mockResolvedValue([]) };
+    @Module({
+      imports: [
+        CqrsFactoryModule.forRoot({
+          queryExecutor,
+          commandExecutor: { execute: async () => undefined },
+        }),
+      ],
+    })
+    class AppModule {}
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: false,
+    });
+    await app.get(QueryFactory).create(GetUsers).execute();
+    // Act
+    await app.get(CommandFactory).create(CreateUser).execute();
+    await app.get(QueryFactory).create(GetUsers).execute();
+    // Assert
+    expect(queryExecutor.execute).toHaveBeenCalledTimes(2);
+  });
+
+  describe('forRoot()', () => {
+    it('should execute commands with the configured executor', async () => {
+      // Arrange
+      @Command()
+      class TestCommand {}
+      const commandExecutor = { execute: jest.fn().mockResolvedValue(42) };
+      @Module({ imports: [CqrsFactoryModule.forRoot({ commandExecutor })] })
+      class AppModule {}
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+      // Act
+      const result = await app
+        .get(CommandFactory)
+        .create(TestCommand)
+        .execute();
+      // Assert
+      expect(result).toBe(42);
+    });
+  });
+
+  describe('forRootAsync()', () => {
+    it('should resolve the options from a factory', async () => {
+      // Arrange
+      @Command()
+      class TestCommand {}
+      const commandExecutor = { execute: jest.fn().mockResolvedValue(42) };
+      @Module({
+        imports: [
+          CqrsFactoryModule.forRootAsync({
+            useFactory: async () => ({ commandExecutor }),
+          }),
+        ],
+      })
+      class AppModule {}
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+      // Act
+      const result = await app
+        .get(CommandFactory)
+        .create(TestCommand)
+        .execute();
+      // Assert
+      expect(result).toBe(42);
+    });
+  });
+
+  describe('forFeature()', () => {
+    it('should override the root options in the importing module', async () => {
+      // Arrange
+      @Command()
+      class TestCommand {}
+      @Injectable()
+      class FeatureService {
+        constructor(public readonly commandFactory: CommandFactory) {}
+      }
+      @Injectable()
+      class RootService {
+        constructor(public readonly commandFactory: CommandFactory) {}
+      }
+      @Module({
+        imports: [
+          CqrsFactoryModule.forFeature({
+            commandExecutor: { execute: async () => 'feature' },
+          }),
+        ],
+        providers: [FeatureService],
+      })
+      class FeatureModule {}
+      @Module({
+        imports: [
+          CqrsFactoryModule.forRoot({
+            commandExecutor: { execute: async () => 'root' },
+          }),
+          FeatureModule,
+        ],
+        providers: [RootService],
+      })
+      class AppModule {}
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+      // Act
+      const featureResult = await app
+        .get(FeatureService)
+        .commandFactory.create(TestCommand)
+        .execute();
+      const rootResult = await app
+        .get(RootService)
+        .commandFactory.create(TestCommand)
+        .execute();
+      // Assert
+      expect(featureResult).toBe('feature');
+      expect(rootResult).toBe('root');
+    });
+
+    it('should share the root providers with the root module', async () => {
+      // Arrange
+      @Injectable()
+      class RootProviders {
+        constructor(
+          public readonly queryCache: QueryCache,
+          public readonly idempotencyStore: IdempotencyStore,
+          public readonly metrics: CqrsMetrics,
+          public readonly registry: OperationRegistry,
+        ) {}
+      }
+      @Module({
+        imports: [CqrsFactoryModule.forFeature({ loggerContext: 'feature' })],
+        providers: [RootProviders],
+      })
+      class FeatureModule {}
+      @Module({
+        imports: [CqrsFactoryModule.forRoot(), FeatureModule],
+        providers: [RootProviders],
+      })
+      class AppModule {}
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+      // Act
+      const feature = app
+        .select(FeatureModule)
+        .get(RootProviders, { strict: true });
+      const root = app.select(AppModule).get(RootProviders, { strict: true });
+      // Assert
+      expect(feature).not.toBe(root);
+      expect(feature.queryCache).toBe(root.queryCache);
+      expect(feature.idempotencyStore).toBe(root.idempotencyStore);
+      expect(feature.metrics).toBe(root.metrics);
+      expect(feature.registry).toBe(root.registry);
+    });
+
+    it('should share the idempotency store with the root module', async () => {
+      // Arrange
+      @Command({ idempotent: { key: () => 'key' } })
+      class TestCommand {}
+      const execute = jest.fn().mockResolvedValue(42);
+      @Injectable()
+      class OperationService {
+        constructor(public readonly commandFactory: CommandFactory) {}
+      }
+      @Module({
+        imports: [CqrsFactoryModule.forFeature({ loggerContext: 'feature' })],
+        providers: [OperationService],
+      })
+      class FeatureModule {}
+      @Module({
+        imports: [
+          CqrsFactoryModule.forRoot({ commandExecutor: { execute } }),
+          FeatureModule,
+        ],
+        providers: [OperationService],
+      })
+      class AppModule {}
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+      const rootFactory = app
+        .select(AppModule)
+        .get(OperationService, { strict: true }).commandFactory;
+      const featureFactory = app
+        .select(FeatureModule)
+        .get(OperationService, { strict: true }).commandFactory;
+      // Act
+      await rootFactory.create(TestCommand).execute();
+      await featureFactory.create(TestCommand).execute();
+      // Assert
+      expect(featureFactory).not.toBe(rootFactory);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,15 +1,146 @@
-import { Module } from '@nestjs/common';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
 import {
   CommandLogger,
   CommandFactory,
+  OperationExecutionContext,
+  OperationRegistry,
   QueryFactory,
   QueryLogger,
 } from './services';
 import { CqrsModule } from '@nestjs/cqrs';
+import { DiscoveryModule } from '@nestjs/core';
+import { InMemoryQueryCache, QueryCache } from './cache';
+import { IdempotencyStore, InMemoryIdempotencyStore } from './idempotency';
+import { CqrsMetrics } from './metrics';
+import {
+  CQRS_FACTORY_FEATURE_OPTIONS,
+  CQRS_FACTORY_MODULE_OPTIONS,
+  CQRS_FACTORY_ROOT_OPTIONS,
+  CqrsFactoryModuleAsyncOptions,
+  CqrsFactoryModuleOptions,
+} from './cqrs-module.options';
+
+const FACTORY_PROVIDERS: Provider[] = [
+  CommandFactory,
+  CommandLogger,
+  QueryFactory,
+  QueryLogger,
+  OperationExecutionContext,
+];
+
+const FACTORY_EXPORTS = [
+  CommandFactory,
+  QueryFactory,
+  OperationExecutionContext,
+];
+
+// The query cache, the idempotency store, the registry and the metrics are
+// provided only by the global root module, so the feature modules share them
+// with the root one. (They are not in the static module metadata, which Nest
+// merges into every dynamic module.)
+const ROOT_PROVIDERS: Provider[] = [
+  {
+    provide: QueryCache,
+    useFactory: (options?: CqrsFactoryModuleOptions) =>
+      options?.queryCache ?? new InMemoryQueryCache(),
+    inject: [{ token: CQRS_FACTORY_MODULE_OPTIONS, optional: true }],
+  },
+  {
+    provide: IdempotencyStore,
+    useFactory: (options?: CqrsFactoryModuleOptions) =>
+      options?.idempotencyStore ?? new InMemoryIdempotencyStore(),
+    inject: [{ token: CQRS_FACTORY_MODULE_OPTIONS, optional: true }],
+  },
+  OperationRegistry,
+  CqrsMetrics,
+];
+
+const ROOT_EXPORTS = [
+  ...FACTORY_EXPORTS,
+  QueryCache,
+  IdempotencyStore,
+  OperationRegistry,
+  CqrsMetrics,
+];
 
 @Module({
   imports: [CqrsModule],
-  providers: [CommandFactory, CommandLogger, QueryFactory, QueryLogger],
-  exports: [CommandFactory, QueryFactory],
+  providers: FACTORY_PROVIDERS,
+  exports: FACTORY_EXPORTS,
 })
-export class CqrsFactoryModule {}
+export class CqrsFactoryModule {
+  /**
+   * Registers the factories globally with the given options.
+   */
+  public static forRoot(options: CqrsFactoryModuleOptions = {}): DynamicModule {
+    return this.createRootModule([], {
+      provide: CQRS_FACTORY_ROOT_OPTIONS,
+      useValue: options,
+    });
+  }
+  /**
+   * Registers the factories globally with options resolved by a factory
+   * function. (E.g. from a configuration service.)
+   */
+  public static forRootAsync(
+    options: CqrsFactoryModuleAsyncOptions,
+  ): DynamicModule {
+    return this.createRootModule(options.imports ?? [], {
+      provide: CQRS_FACTORY_ROOT_OPTIONS,
+      useFactory: options.useFactory,
+      inject: options.inject ?? [],
+    });
+  }
+  /**
+   * Provides factories scoped to the importing module. The given options
+   * override the root options for the operations created by those factories.
+   */
+  public static forFeature(
+    options: CqrsFactoryModuleOptions = {},
+  ): DynamicModule {
+    return {
+      module: CqrsFactoryModule,
+      imports: [CqrsModule],
+      providers: [
+        { provide: CQRS_FACTORY_FEATURE_OPTIONS, useValue: options },
+        {
+          provide: CQRS_FACTORY_MODULE_OPTIONS,
+          useFactory: (
+            rootOptions: CqrsFactoryModuleOptions | undefined,
+            featureOptions: CqrsFactoryModuleOptions,
+          ): CqrsFactoryModuleOptions => ({
+            ...rootOptions,
+            ...featureOptions,
+          }),
+          inject: [
+            { token: CQRS_FACTORY_ROOT_OPTIONS, optional: true },
+            CQRS_FACTORY_FEATURE_OPTIONS,
+          ],
+        },
+        ...FACTORY_PROVIDERS,
+      ],
+      exports: FACTORY_EXPORTS,
+    };
+  }
+
+  private static createRootModule(
+    imports: NonNullable<DynamicModule['imports']>,
+    optionsProvider: Provider,
+  ): DynamicModule {
+    return {
+      global: true,
+      module: CqrsFactoryModule,
+      imports: [CqrsModule, DiscoveryModule, ...imports],
+      providers: [
+        optionsProvider,
+        {
+          provide: CQRS_FACTORY_MODULE_OPTIONS,
+          useExisting: CQRS_FACTORY_ROOT_OPTIONS,
+        },
+        ...FACTORY_PROVIDERS,
+        ...ROOT_PROVIDERS,
+      ],
+      exports: [...ROOT_EXPORTS, CQRS_FACTORY_ROOT_OPTIONS],
+    };
+  }
+}
@@ -1,2 +1,3 @@
 export * from './operation.decorator';
 export * from './operation-handler.decorator';
+export * from './sensitive.decorator';
@@ -2,12 +2,23 @@ import { Metadata } from '@kilbergr/metadata';
 import { Constructor } from 'type-fest';
 import { QueryHandler as NestQueryHandler } from '@nestjs/cqrs';
 import { CommandHandler as NestCommandHandler } from '@nestjs/cqrs';
+import { ResultOf } from '../results/returns';
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
 declare namespace OperationHandler {
   export type Metadata<O extends object> = {
     operationCtor: Constructor<O>;
   };
+  /**
+   * A handler class of the operation. Its `execute()` has to return the result
+   * declared by the `Returns` base of the operation, if any.
+   */
+  export type Target<O extends object> =
+    unknown extends ResultOf<O>
+      ? Constructor<object>
+      : Constructor<{
+          execute(operation: O): Promise<ResultOf<O>> | ResultOf<O>;
+        }>;
 }
 
 function createOperationHandlerDecorator<
@@ -20,7 +31,7 @@ function createOperationHandlerDecorator<
 
   function OperationHandler<T extends object>(
     operationCtor: Constructor<T>,
-  ): ClassDecorator {
+  ): (target: OperationHandler.Target<T>) => void {
     const nestCommandHandlerFn = nestHandlerDecorator(operationCtor);
     return (target) => {
       nestCommandHandlerFn(target);
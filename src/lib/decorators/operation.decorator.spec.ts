@@ -51,6 +51,14 @@ describe('(Unit) Operation decorator', () => {
       // Assert
       expect(metadata?.description).toBe('Test query description');
     });
+
+    it('should keep track of the decorated queries', () => {
+      // Arrange & Act
+      @Query()
+      class TestQuery {}
+      // Assert
+      expect(Query.targets.has(TestQuery)).toBeTruthy();
+    });
   });
 
   describe('(Unit) Command decorator', () => {
@@ -1,9 +1,13 @@
 import { Metadata } from '@kilbergr/metadata';
+import { Constructor } from 'type-fest';
 import {
   CommandFailedException,
   OperationFailedExceptionFactory,
   QueryFailedException,
 } from '../exceptions';
+import { OperationMiddleware } from '../middlewares/operation.middleware';
+import { OperationErrorMapping } from '../middlewares/exception-mapping.middleware';
+import { ResultValidationMode } from '../results/result-validation';
 
 type MetadataWrapper<V> = Metadata<V>;
 
@@ -14,6 +18,45 @@ export declare namespace Operation {
     E extends Error = Error,
   > = OperationFailedExceptionFactory<O, E>;
 
+  export type RetryOptions = {
+    /**
+     * The maximal number of attempts including the first one.
+     */
+    attempts: number;
+    /**
+     * How the delay between attempts grows. `fixed` waits the same delay,
+     * `exponential` doubles it after each attempt and `jitter` waits a random
+     * part of the exponential delay. (Default: `fixed`)
+     */
+    backoff?: 'fixed' | 'exponential' | 'jitter';
+    /**
+     * The delay in milliseconds before the first retry. (Default: 100)
+     */
+    delay?: number;
+    /**
+     * The upper limit of the delay in milliseconds.
+     */
+    maxDelay?: number;
+    /**
+     * Error codes of the mapped exception or a predicate over the original
+     * error deciding whether the failed attempt is retried.
+     * (Default: `INTERNAL_HANDLER_ERROR`)
+     */
+    retryOn?: string[] | ((error: unknown) => boolean);
+  };
+
+  export type LogOptions = {
+    /**
+     * Logs the operation serialized by the class-transformer. The excluded
+     * properties are omitted and the sensitive ones are redacted.
+     */
+    payload?: boolean;
+    /**
+     * Logs a truncated summary of the successful result.
+     */
+    result?: boolean;
+  };
+
   export type Metadata<
     E extends ExceptionFactory<any, any> = ExceptionFactory,
   > = {
@@ -25,50 +68,116 @@ export declare namespace Operation {
      */
     exceptionFactory: E;
     description?: string;
+    /**
+     * Middlewares wrapping only the execution of this operation. They run
+     * after the global and the factory middlewares.
+     */
+    middlewares?: OperationMiddleware[];
+    /**
+     * The time in milliseconds after which the execution of the operation
+     * is aborted. Overrides the module-wide `timeout`.
+     */
+    timeout?: number;
+    /**
+     * Retries the failed handler execution before the failure is mapped into
+     * the operation exception.
+     */
+    retry?: RetryOptions;
+    /**
+     * Maps the errors raised by the handler into the operation exception.
+     */
+    maps?: OperationErrorMapping[];
+    /**
+     * Opts the operation in or out of the payload and result logging.
+     * Overrides the module-wide `logPayload` and `logResult`.
+     */
+    log?: LogOptions;
+    /**
+     * The duration in milliseconds from which a successful execution is
+     * logged as a `slow` warning. Overrides the module-wide `slowThresholdMs`.
+     */
+    slowThresholdMs?: number;
+    /**
+     * A class-validator decorated class of the handler result. The result
+     * (or each item of an array result) is transformed into the class by the
+     * class-transformer and validated.
+     */
+    returns?: Constructor<object>;
+    /**
+     * How an invalid result is treated. Overrides the module-wide
+     * `resultValidation`.
+     */
+    resultValidation?: ResultValidationMode;
   };
 
   export type Options<E extends ExceptionFactory<any, any> = ExceptionFactory> =
     {
       throws?: E;
       description?: string;
+      middlewares?: OperationMiddleware[];
+      timeout?: number;
+      retry?: RetryOptions;
+      maps?: OperationErrorMapping<E>[];
+      log?: LogOptions;
+      slowThresholdMs?: number;
+      returns?: Constructor<object>;
+      resultValidation?: ResultValidationMode;
     };
 
   export type Decorator<
     E extends ExceptionFactory<any, any> = ExceptionFactory,
     O extends Options<E> = Options<E>,
+    M extends Metadata<E> = Metadata<E>,
   > = {
-    (options?: O): ClassDecorator;
-    metadata: MetadataWrapper<Metadata<E>>;
+    // The exception class is inferred from the `throws` option, so the
+    // error mappings can name its static factories.
+    <T extends E = E>(
+      options?: Omit<O, 'throws' | 'maps'> & {
+        throws?: T;
+        maps?: OperationErrorMapping<T>[];
+      },
+    ): ClassDecorator;
+    metadata: MetadataWrapper<M>;
+    /**
+     * All classes decorated by the decorator, in the order of declaration.
+     */
+    targets: ReadonlySet<Constructor<object>>;
   };
 }
 
 function createOperationDecorator<
   E extends Operation.ExceptionFactory<any, any> = Operation.ExceptionFactory,
   O extends Operation.Options<E> = Operation.Options<E>,
+  M extends Operation.Metadata<E> = Operation.Metadata<E>,
 >(
   metadataKey: string,
   defaultExceptionCtor: E,
   defaultOptions: O,
-): Operation.Decorator<E, O> {
-  const metadata = new Metadata<Operation.Metadata<E>>(metadataKey);
+): Operation.Decorator<E, O, M> {
+  const metadata = new Metadata<M>(metadataKey);
+  const targets = new Set<Constructor<object>>();
 
   function Operation(options: O = defaultOptions) {
-    const operationExceptionCtor = options.throws || defaultExceptionCtor;
+    // All options except the exception are kept in the metadata as they are.
+    const { throws, ...operationOptions } = options;
+    const operationExceptionCtor = throws || defaultExceptionCtor;
 
     return (target: any) => {
       const operationType = target.name;
 
       metadata.set(target, {
+        ...operationOptions,
         type: operationType,
         exceptionFactory: operationExceptionCtor,
-        description: options.description,
-      });
+      } as unknown as M);
+      targets.add(target);
     };
   }
 
   Operation.metadata = metadata;
+  Operation.targets = targets as ReadonlySet<Constructor<object>>;
 
-  return Operation;
+  return Operation as Operation.Decorator<E, O, M>;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -78,22 +187,46 @@ export declare namespace Command {
     E extends Error = Error,
   > = typeof CommandFailedException<C, E>;
 
+  export type IdempotencyOptions<C extends object = any> = {
+    /**
+     * Derives the idempotency key from the validated command. Commands with
+     * the same key are executed only once.
+     */
+    key: (command: C) => string;
+    /**
+     * How long in milliseconds the outcome of the command is remembered.
+     * (Default: 24 hours)
+     */
+    ttl?: number;
+  };
+
   export type Metadata<
     E extends ExceptionFactory<any, any> = ExceptionFactory,
-  > = Operation.Metadata<E>;
+  > = Operation.Metadata<E> & {
+    idempotent?: IdempotencyOptions;
+    /**
+     * Cache tags or query classes whose cached results are invalidated after
+     * the command is executed.
+     */
+    invalidates?: Array<string | Constructor<object>>;
+  };
 
   export type Options<E extends ExceptionFactory<any, any> = ExceptionFactory> =
-    Operation.Options<E>;
+    Operation.Options<E> & {
+      idempotent?: IdempotencyOptions;
+      invalidates?: Array<string | Constructor<object>>;
+    };
 
   export type Decorator<
     E extends ExceptionFactory<any, any> = ExceptionFactory,
     O extends Options<E> = Options<E>,
-  > = Operation.Decorator<E, O>;
+  > = Operation.Decorator<E, O, Metadata<E>>;
 }
 
 export const Command = createOperationDecorator<
   Command.ExceptionFactory,
-  Command.Options
+  Command.Options,
+  Command.Metadata
 >('command:exception', CommandFailedException, {});
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -103,20 +236,45 @@ export declare namespace Query {
     E extends Error = Error,
   > = typeof QueryFailedException<Q, E>;
 
+  export type CacheOptions<Q extends object = any> = {
+    /**
+     * How long in milliseconds the query result is cached.
+     */
+    ttl: number;
+    /**
+     * Derives the cache key from the validated query. (Default: the
+     * serialized query)
+     */
+    key?: (query: Q) => string;
+    /**
+     * Tags to invalidate the cached result by commands. The result is always
+     * tagged also with the query type.
+     */
+    tags?: string[] | ((query: Q) => string[]);
+  };
+
   export type Metadata<
     E extends ExceptionFactory<any, any> = ExceptionFactory,
-  > = Operation.Metadata<E>;
+  > = Operation.Metadata<E> & {
+    /**
+     * Serves repeated queries from the query cache.
+     */
+    cache?: CacheOptions;
+  };
 
   export type Options<E extends ExceptionFactory<any, any> = ExceptionFactory> =
-    Operation.Options<E>;
+    Operation.Options<E> & {
+      cache?: CacheOptions;
+    };
 
   export type Decorator<
     E extends ExceptionFactory<any, any> = ExceptionFactory,
     O extends Options<E> = Options<E>,
-  > = Operation.Decorator<E, O>;
+  > = Operation.Decorator<E, O, Metadata<E>>;
 }
 
 export const Query = createOperationDecorator<
   Query.ExceptionFactory,
-  Query.Options
+  Query.Options,
+  Query.Metadata
 >('query:exception', QueryFailedException, {});
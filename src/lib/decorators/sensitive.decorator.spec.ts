@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import {
+  Sensitive,
+  getSensitiveOptions,
+  redactSensitive,
+} from './sensitive.decorator';
+
+describe('(Unit) Sensitive decorator', () => {
+  it('should define a metadata on the class of the property', () => {
+    // Arrange & Act
+    class ChangePassword {
+      @Sensitive()
+      public password!: string;
+    }
+    // Assert
+    expect(Sensitive.metadata.get(ChangePassword)).toEqual({ password: {} });
+  });
+
+  describe('getSensitiveOptions()', () => {
+    it('should find a sensitive property declared by a parent class', () => {
+      // Arrange
+      class Credentials {
+        @Sensitive({ mask: '***' })
+        public password!: string;
+      }
+      class ChangePassword extends Credentials {}
+      // Act
+      const options = getSensitiveOptions(new ChangePassword(), 'password');
+      // Assert
+      expect(options).toEqual({ mask: '***' });
+    });
+
+    it('should return undefined for a regular property', () => {
+      // Arrange
+      class ChangePassword {
+        public userId!: string;
+      }
+      // Act
+      const options = getSensitiveOptions(new ChangePassword(), 'userId');
+      // Assert
+      expect(options).toBeUndefined();
+    });
+  });
+
+  describe('redactSensitive()', () => {
+    it('should mask the sensitive properties', () => {
+      // Arrange
+      class ChangePassword {
+        public userId = '1';
+
+        @Sensitive()
+        public password = 'secret';
+      }
+      // Act
+      const redacted = redactSensitive(new ChangePassword());
+      // Assert
+      expect(redacted).toEqual({ userId: '1', password: '[REDACTED]' });
+      expect(redacted).toBeInstanceOf(ChangePassword);
+    });
+
+    it('should hash the sensitive properties', () => {
+      // Arrange
+      class Login {
+        @Sensitive({ strategy: 'hash' })
+        public email = 'john@example.com';
+      }
+      const hash = createHash('sha256')
+        .update(JSON.stringify('john@example.com'))
+        .digest('hex');
+      // Act
+      const redacted = redactSensitive(new Login());
+      // Assert
+      expect(redacted.email).toBe(`sha256:${hash}`);
+    });
+
+    it('should redact the nested objects and arrays', () => {
+      // Arrange
+      class Card {
+        @Sensitive()
+        public number = '4111111111111111';
+      }
+      class Pay {
+        public cards = [new Card()];
+      }
+      // Act
+      const redacted = redactSensitive(new Pay());
+      // Assert
+      expect(redacted.cards[0].number).toBe('[REDACTED]');
+    });
+
+    it('should not modify the original object', () => {
+      // Arrange
+      class ChangePassword {
+        @Sensitive()
+        public password = 'secret';
+      }
+      const command = new ChangePassword();
+      // Act
+      redactSensitive(command);
+      // Assert
+      expect(command.password).toBe('secret');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { Metadata } from '@kilbergr/metadata';
+import { createHash } from 'crypto';
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace Sensitive {
+  export type Options = {
+    /**
+     * Replaces the value with the `mask`, or with a SHA-256 hash of the
+     * value, which keeps equal values recognizable. (Default: `mask`)
+     */
+    strategy?: 'mask' | 'hash';
+    /**
+     * The replacement of masked values. (Default: `[REDACTED]`)
+     */
+    mask?: string;
+  };
+  /**
+   * The options of the sensitive properties by the property names.
+   */
+  export type Metadata = Record<string, Options>;
+}
+
+const DEFAULT_MASK = '[REDACTED]';
+
+const metadata = new Metadata<Sensitive.Metadata>('sensitive');
+
+/**
+ * Marks an operation property as sensitive. Its value is redacted in the
+ * operation logs, in the exception messages and validation errors and in the
+ * serialized exceptions.
+ */
+export function Sensitive(options: Sensitive.Options = {}): PropertyDecorator {
+  return (target, propertyKey) => {
+    const ctor = target.constructor;
+
+    metadata.set(ctor, {
+      ...metadata.get(ctor),
+      [String(propertyKey)]: options,
+    });
+  };
+}
+
+Sensitive.metadata = metadata;
+
+/**
+ * Returns the options of a sensitive property declared by the class or any of
+ * its parents, or `undefined` if the property is not sensitive.
+ */
+export function getSensitiveOptions(
+  target: object | undefined,
+  propertyName: string,
+): Sensitive.Options | undefined {
+  for (
+    let ctor = target?.constructor;
+    ctor && ctor !== Object;
+    ctor = Object.getPrototypeOf(ctor)
+  ) {
+    const options = metadata.get(ctor)?.[propertyName];
+
+    if (options) {
+      return options;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Replaces a sensitive value according to the property options.
+ */
+export function redactSensitiveValue(
+  value: unknown,
+  options: Sensitive.Options,
+): string {
+  if (options.strategy === 'hash') {
+    const hash = createHash('sha256')
+      .update(JSON.stringify(value) ?? String(value))
+      .digest('hex');
+
+    return `sha256:${hash}`;
+  }
+
+  return options.mask ?? DEFAULT_MASK;
+}
+
+/**
+ * Returns a copy of the value with the sensitive properties redacted. Nested
+ * objects and arrays are redacted as well and the copies keep the prototypes
+ * of the originals.
+ */
+export function redactSensitive<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSensitive(item)) as T;
+  } else if (
+    value === null ||
+    typeof value !== 'object' ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+
+  const copy = Object.create(Object.getPrototypeOf(value));
+
+  for (const [propertyName, propertyValue] of Object.entries(value)) {
+    const options = getSensitiveOptions(value, propertyName);
+
+    copy[propertyName] =
+      options && propertyValue !== undefined
+        ? redactSensitiveValue(propertyValue, options)
+        : redactSensitive(propertyValue);
+  }
+
+  return copy;
+}
@@ -1 +1,2 @@
 export * from './operation-failed.exception';
+export * from './operation-verification.exception';
@@ -1,6 +1,10 @@
 import { CommandHandlerNotFoundException } from '@nestjs/cqrs';
+import { Length, MinLength, ValidationError, validate } from 'class-validator';
+import { Sensitive } from '../decorators/sensitive.decorator';
 import {
   CommandFailedException,
+  OperationFailedException,
+  OperationFailedExceptionRegistry,
   QueryFailedException,
 } from './operation-failed.exception';
 
@@ -175,6 +179,534 @@ describe('(Unit) Operation Failed Exception', () => {
         );
       });
     });
+
+    describe('Timeout()', () => {
+      it('should build a message with the command name and timeout', () => {
+        // Arrange
+        class TestCommand {}
+        const command = new TestCommand();
+        // Act
+        const exception = CommandFailedException.Timeout(command, 500);
+        // Assert
+        expect(exception.code).toBe(CommandFailedException.errorCodes.TIMEOUT);
+        expect(exception.message).toBe(
+          'Cqrs operation "TestCommand" failed! Command "TestCommand" timed out after 500ms!',
+        );
+      });
+    });
+
+    describe('Cancelled()', () => {
+      it('should build a message with the command name', () => {
+        // Arrange
+        class TestCommand {}
+        const command = new TestCommand();
+        // Act
+        const exception = CommandFailedException.Cancelled(command);
+        // Assert
+        expect(exception.code).toBe(
+          CommandFailedException.errorCodes.CANCELLED,
+        );
+        expect(exception.message).toBe(
+          'Cqrs operation "TestCommand" failed! Command "TestCommand" was cancelled!',
+        );
+      });
+
+      it('should keep an error abort reason as the original error', () => {
+        // Arrange
+        class TestCommand {}
+        const reason = new Error('Client closed the request');
+        // Act
+        const exception = CommandFailedException.Cancelled(
+          new TestCommand(),
+          reason,
+        );
+        // Assert
+        expect(exception.origError).toBe(reason);
+      });
+    });
+
+    describe('#toProblemDetails()', () => {
+      it('should describe the failure as a problem', () => {
+        // Arrange
+        class TestCommand {}
+        const exception = CommandFailedException.HandlerNotFound(
+          new TestCommand(),
+          new Error(),
+        );
+        // Act
+        const problem = exception.toProblemDetails({ instance: '/users' });
+        // Assert
+        expect(problem).toEqual({
+          type: '/problems/TestCommand/HANDLER_NOT_FOUND',
+          title:
+            'Command "TestCommand" failed with the code "HANDLER_NOT_FOUND"',
+          status: 501,
+          detail: 'Internal server error',
+          instance: '/users',
+          code: 'HANDLER_NOT_FOUND',
+          operation: 'TestCommand',
+        });
+      });
+
+      it('should derive the type from the given base URI', () => {
+        // Arrange
+        class TestCommand {}
+        const exception = CommandFailedException.Timeout(
+          new TestCommand(),
+          100,
+        );
+        // Act
+        const problem = exception.toProblemDetails({
+          typeBaseUri: 'https://example.com/problems/',
+        });
+        // Assert
+        expect(problem.type).toBe(
+          'https://example.com/problems/TestCommand/TIMEOUT',
+        );
+      });
+
+      it('should keep the detail of a client error', () => {
+        // Arrange
+        class TestCommand {}
+        const exception = CommandFailedException.InvalidOperation(
+          new TestCommand(),
+          [],
+        );
+        // Act
+        const problem = exception.toProblemDetails();
+        // Assert
+        expect(problem.detail).toBe(exception.reason);
+      });
+
+      it('should not expose the reason of an internal handler error', () => {
+        // Arrange
+        class TestCommand {}
+        const exception = CommandFailedException.InternalHandlerError(
+          new TestCommand(),
+          new Error('Connection to db.internal:5432 refused'),
+        );
+        // Act
+        const problem = exception.toProblemDetails();
+        // Assert
+        expect(problem.detail).toBe('Internal server error');
+      });
+
+      it('should list the validation errors', () => {
+        // Arrange
+        class TestCommand {}
+        const error = {
+          property: 'address',
+          children: [
+            {
+              property: 'street',
+              constraints: { isString: 'street must be a string' },
+            },
+          ],
+        } as ValidationError;
+        const exception = CommandFailedException.InvalidOperation(
+          new TestCommand(),
+          [error],
+        );
+        // Act
+        const problem = exception.toProblemDetails();
+        // Assert
+        expect(problem.errors).toEqual([
+          {
+            path: 'address.street',
+            constraint: 'isString',
+            message: 'street must be a string',
+          },
+        ]);
+      });
+    });
+
+    describe('#getValidationErrors()', () => {
+      it('should list each failed constraint with the property path', () => {
+        // Arrange
+        class TestCommand {}
+        const error = {
+          property: 'addresses',
+          children: [
+            {
+              property: '0',
+              children: [
+                {
+                  property: 'street',
+                  value: '',
+                  constraints: {
+                    isNotEmpty: 'street should not be empty',
+                    maxLength: 'street is too long',
+                  },
+                },
+              ],
+            },
+          ],
+        } as ValidationError;
+        const exception = CommandFailedException.InvalidOperation(
+          new TestCommand(),
+          [error],
+        );
+        // Act
+        const validationErrors = exception.getValidationErrors();
+        // Assert
+        expect(validationErrors).toEqual([
+          {
+            path: 'addresses[0].street',
+            constraint: 'isNotEmpty',
+            message: 'street should not be empty',
+            value: '',
+          },
+          {
+            path: 'addresses[0].street',
+            constraint: 'maxLength',
+            message: 'street is too long',
+            value: '',
+          },
+        ]);
+      });
+
+      it('should return undefined for a valid operation', () => {
+        // Arrange
+        class TestCommand {}
+        const exception = CommandFailedException.InternalHandlerError(
+          new TestCommand(),
+          new Error(),
+        );
+        // Act
+        const validationErrors = exception.getValidationErrors();
+        // Assert
+        expect(validationErrors).toBeUndefined();
+      });
+    });
+
+    describe('InvalidResult()', () => {
+      it('should create an exception with the invalid result code', () => {
+        // Arrange
+        class TestCommand {}
+        const error = {
+          property: 'id',
+          value: 42,
+          constraints: { isString: 'id must be a string' },
+        } as ValidationError;
+        // Act
+        const exception = CommandFailedException.InvalidResult(
+          new TestCommand(),
+          [error],
+        );
+        // Assert
+        expect(exception.code).toBe(
+          CommandFailedException.errorCodes.INVALID_RESULT,
+        );
+        expect(exception.getHttpStatus()).toBe(500);
+        expect(exception.getResultValidationErrors()).toEqual([
+          {
+            path: 'id',
+            constraint: 'isString',
+            message: 'id must be a string',
+            value: 42,
+          },
+        ]);
+      });
+
+      it('should not expose the result validation errors as a problem', () => {
+        // Arrange
+        class TestCommand {}
+        const exception = CommandFailedException.InvalidResult(
+          new TestCommand(),
+          [
+            {
+              property: 'id',
+              constraints: { isString: 'id must be a string' },
+            } as ValidationError,
+          ],
+        );
+        // Act
+        const problem = exception.toProblemDetails();
+        // Assert
+        expect(exception.getValidationErrors()).toBeUndefined();
+        expect(problem.errors).toBeUndefined();
+      });
+    });
+
+    describe('fromProblemDetails()', () => {
+      it('should restore the exception from a problem', () => {
+        // Arrange
+        class TestCommand {}
+        const problem = CommandFailedException.InvalidOperation(
+          new TestCommand(),
+          [
+            {
+              property: 'name',
+              constraints: { isString: 'name must be a string' },
+            } as ValidationError,
+          ],
+        ).toProblemDetails();
+        // Act
+        const exception = CommandFailedException.fromProblemDetails(problem);
+        // Assert
+        expect(exception).toBeInstanceOf(CommandFailedException);
+        expect(exception.code).toBe('INVALID_COMMAND');
+        expect(exception.operation.constructor.name).toBe('TestCommand');
+        expect(exception.toProblemDetails()).toEqual(problem);
+      });
+    });
+  });
+
+  describe('(Unit) JSON serialization', () => {
+    class CreateUser {
+      public name!: string;
+
+      public getGreeting() {
+        return `Hello ${this.name}`;
+      }
+    }
+
+    class CreateUserException extends CommandFailedException<CreateUser> {
+      public static errorCodes = {
+        ...CommandFailedException.errorCodes,
+        USER_ALREADY_EXISTS: 'USER_ALREADY_EXISTS',
+      };
+    }
+
+    const registry: OperationFailedExceptionRegistry = {
+      get: (operationType) =>
+        operationType === 'CreateUser'
+          ? { operationCtor: CreateUser, exceptionFactory: CreateUserException }
+          : undefined,
+    };
+
+    function createCommand(name: string): CreateUser {
+      return Object.assign(new CreateUser(), { name });
+    }
+
+    it('should restore the exception class and the operation', () => {
+      // Arrange
+      const exception = new CreateUserException(
+        CreateUserException.errorCodes.USER_ALREADY_EXISTS,
+        createCommand('john'),
+        'User already exists!',
+      );
+      const json = JSON.parse(JSON.stringify(exception));
+      // Act
+      const restored = OperationFailedException.fromJSON(json, registry);
+      // Assert
+      expect(restored).toBeInstanceOf(CreateUserException);
+      expect(restored.code).toBe('USER_ALREADY_EXISTS');
+      expect(restored.reason).toBe('User already exists!');
+      expect(restored.operation).toBeInstanceOf(CreateUser);
+      expect((restored.operation as CreateUser).getGreeting()).toBe(
+        'Hello john',
+      );
+    });
+
+    it('should restore the execution ids', () => {
+      // Arrange
+      const exception = new CreateUserException(
+        CreateUserException.errorCodes.USER_ALREADY_EXISTS,
+        createCommand('john'),
+        'User already exists!',
+      );
+      exception.execution = {
+        operationId: 'operation-id',
+        correlationId: 'correlation-id',
+        causationId: 'causation-id',
+        depth: 1,
+      };
+      const json = JSON.parse(JSON.stringify(exception));
+      // Act
+      const restored = OperationFailedException.fromJSON(json, registry);
+      // Assert
+      expect(json.execution).toEqual(exception.execution);
+      expect(restored.execution).toEqual(exception.execution);
+    });
+
+    it('should restore the nested validation errors', () => {
+      // Arrange
+      const error = Object.assign(new ValidationError(), {
+        property: 'address',
+        children: [
+          Object.assign(new ValidationError(), {
+            property: 'street',
+            value: 42,
+            constraints: { isString: 'street must be a string' },
+            children: [],
+          }),
+        ],
+      });
+      const exception = CreateUserException.InvalidOperation(
+        createCommand('john'),
+        [error],
+      );
+      const json = JSON.parse(JSON.stringify(exception));
+      // Act
+      const restored = OperationFailedException.fromJSON(json, registry);
+      // Assert
+      expect(restored.origError).toBeInstanceOf(AggregateError);
+      expect(restored.getValidationErrors()).toEqual(
+        exception.getValidationErrors(),
+      );
+      expect(
+        (restored.origError as AggregateError).errors[0].children[0],
+      ).toEqual(expect.objectContaining({ property: 'street', value: 42 }));
+    });
+
+    it('should restore an original error', () => {
+      // Arrange
+      const origError = new TypeError('Unexpected value');
+      const exception = CreateUserException.InternalHandlerError(
+        createCommand('john'),
+        origError,
+      );
+      const json = JSON.parse(JSON.stringify(exception));
+      // Act
+      const restored = OperationFailedException.fromJSON(json, registry);
+      // Assert
+      expect(restored.origError).toEqual(
+        expect.objectContaining({
+          name: 'TypeError',
+          message: 'Unexpected value',
+          stack: origError.stack,
+        }),
+      );
+    });
+
+    it('should fall back to the called class for an unknown operation', () => {
+      // Arrange
+      class UnknownCommand {}
+      const exception = CommandFailedException.HandlerNotFound(
+        new UnknownCommand(),
+        new Error(),
+      );
+      const json = JSON.parse(JSON.stringify(exception));
+      // Act
+      const restored = CommandFailedException.fromJSON(json, registry);
+      // Assert
+      expect(restored).toBeInstanceOf(CommandFailedException);
+      expect(restored.operation.constructor.name).toBe('UnknownCommand');
+    });
+  });
+
+  describe('(Unit) Sensitive properties', () => {
+    class ChangePassword {
+      public userId = '1';
+
+      @Sensitive()
+      @MinLength(10, { message: 'password "$value" is too short' })
+      public password = 'hunter2';
+    }
+
+    function createValidationError(command: ChangePassword): ValidationError {
+      return Object.assign(new ValidationError(), {
+        target: command,
+        property: 'password',
+        value: command.password,
+        constraints: { minLength: 'password "hunter2" is too short' },
+        children: [],
+      });
+    }
+
+    it('should redact the sensitive values of the validation errors', () => {
+      // Arrange
+      const command = new ChangePassword();
+      // Act
+      const exception = CommandFailedException.InvalidOperation(command, [
+        createValidationError(command),
+      ]);
+      // Assert
+      expect(exception.getValidationErrors()).toEqual([
+        {
+          path: 'password',
+          constraint: 'minLength',
+          message: 'password "[REDACTED]" is too short',
+          value: '[REDACTED]',
+        },
+      ]);
+      expect(exception.message).not.toContain('hunter2');
+    });
+
+    it('should redact only the interpolated value of the messages', async () => {
+      // Arrange
+      class VerifyPin {
+        @Sensitive()
+        @Length(4, 4, { message: 'pin $value is too short' })
+        public pin = 'o';
+      }
+      const command = new VerifyPin();
+      const errors = await validate(command);
+      // Act
+      const exception = CommandFailedException.InvalidOperation(
+        command,
+        errors,
+      );
+      // Assert
+      expect(exception.getValidationErrors()).toEqual([
+        {
+          path: 'pin',
+          constraint: 'isLength',
+          message: 'pin [REDACTED] is too short',
+          value: '[REDACTED]',
+        },
+      ]);
+    });
+
+    it('should replace the messages of unknown constraints with the value', () => {
+      // Arrange
+      const command = new ChangePassword();
+      const error = Object.assign(createValidationError(command), {
+        constraints: { isStrong: 'hunter2 is too weak' },
+      });
+      // Act
+      const exception = CommandFailedException.InvalidOperation(command, [
+        error,
+      ]);
+      // Assert
+      expect(exception.getValidationErrors()).toEqual([
+        expect.objectContaining({ message: 'password is invalid' }),
+      ]);
+    });
+
+    it('should redact the nested sensitive values of the validation errors', () => {
+      // Arrange
+      class Credentials {
+        @Sensitive()
+        public password = 'hunter2';
+      }
+      class ChangeCredentials {
+        public credentials = new Credentials();
+      }
+      const command = new ChangeCredentials();
+      const error = Object.assign(new ValidationError(), {
+        target: command,
+        property: 'credentials',
+        value: command.credentials,
+        constraints: { isValid: 'credentials are invalid' },
+        children: [],
+      });
+      // Act
+      const exception = CommandFailedException.InvalidOperation(command, [
+        error,
+      ]);
+      // Assert
+      expect(exception.getValidationErrors()).toEqual([
+        expect.objectContaining({ value: { password: '[REDACTED]' } }),
+      ]);
+      expect(JSON.stringify(exception.toJSON())).not.toContain('hunter2');
+    });
+
+    it('should redact the sensitive values of the serialized operation', () => {
+      // Arrange
+      const exception = CommandFailedException.InternalHandlerError(
+        new ChangePassword(),
+        new Error(),
+      );
+      // Act
+      const json = exception.toJSON();
+      // Assert
+      expect(json.operation.payload).toEqual({
+        userId: '1',
+        password: '[REDACTED]',
+      });
+    });
   });
 
   describe('(Unit) QueryFailedException', () => {
@@ -1,22 +1,187 @@
-import { ValidationError } from 'class-validator';
+import {
+  ValidationArguments,
+  ValidationError,
+  getMetadataStorage,
+} from 'class-validator';
+import { instanceToPlain, plainToInstance } from 'class-transformer';
+import { Constructor } from 'type-fest';
+import {
+  getSensitiveOptions,
+  redactSensitive,
+  redactSensitiveValue,
+} from '../decorators/sensitive.decorator';
+import { OperationExecutionIds } from '../services/operation-execution-context.service';
 
 export type OperationFailedExceptionFactory<
   O extends object = object,
   E extends Error = Error,
 > = typeof OperationFailedException<O, E>;
 
+/**
+ * A failed constraint of an invalid operation property.
+ */
+export type OperationValidationErrorDetails = {
+  /**
+   * The path of the invalid property with dot separated nested properties
+   * and array indices in brackets. (E.g. `addresses[0].street`)
+   */
+  path: string;
+  /**
+   * The name of the failed constraint. (E.g. `isNotEmpty`)
+   */
+  constraint: string;
+  message: string;
+  /**
+   * The invalid value. (Present only if the value is defined.)
+   */
+  value?: unknown;
+};
+
+export const PROBLEM_DETAILS_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * An RFC 7807 `application/problem+json` body of a failed operation.
+ */
+export type OperationProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  /**
+   * The error code of the exception.
+   */
+  code: string;
+  /**
+   * The type of the failed operation.
+   */
+  operation: string;
+  /**
+   * Present only for the invalid operations.
+   */
+  errors?: OperationValidationErrorDetails[];
+};
+
+export type OperationProblemDetailsOptions = {
+  /**
+   * Overrides the `problemTypeBaseUri` of the exception class.
+   */
+  typeBaseUri?: string;
+  /**
+   * A URI of the specific occurrence of the problem. (E.g. the request path.)
+   */
+  instance?: string;
+};
+
+/**
+ * A JSON representation of an error kept as the `origError`.
+ */
+export type SerializedError =
+  | {
+      kind: 'error';
+      name: string;
+      message: string;
+      stack?: string;
+      /**
+       * The children of an `AggregateError`.
+       */
+      errors?: SerializedError[];
+    }
+  | {
+      kind: 'validation';
+      property: string;
+      value?: unknown;
+      constraints?: Record<string, string>;
+      children: SerializedError[];
+    }
+  | ({ kind: 'operation-failed' } & OperationFailedExceptionJson);
+
+/**
+ * A JSON representation of an `OperationFailedException`.
+ */
+export type OperationFailedExceptionJson = {
+  /**
+   * The name of the exception class.
+   */
+  exception: string;
+  code: string;
+  reason: string;
+  operation: {
+    type: string;
+    payload: Record<string, unknown>;
+  };
+  /**
+   * Present only if the exception left the execution of the operation.
+   */
+  execution?: OperationExecutionIds;
+  origError?: SerializedError;
+};
+
+/**
+ * Resolves the operation classes and their exceptions by the operation
+ * types. (E.g. the `OperationRegistry`.)
+ */
+export interface OperationFailedExceptionRegistry {
+  get(operationType: string):
+    | {
+        operationCtor: Constructor<object>;
+        exceptionFactory: OperationFailedExceptionFactory<any, any>;
+      }
+    | undefined;
+}
+
 export class OperationFailedException<
   O extends object,
   E extends Error = Error,
 > extends Error {
   public static operationType = 'Operation';
 
+  /**
+   * The error codes are declared `as const`, so the codes of the exception
+   * classes form string literal unions. (See `ErrorCodeOf`.)
+   */
   public static errorCodes = {
     INTERNAL_HANDLER_ERROR: 'INTERNAL_HANDLER_ERROR',
     HANDLER_NOT_FOUND: 'HANDLER_NOT_FOUND',
-    INVALID_OPERATION: 'INVALID_OPERATION',
+    // The command and query exceptions override the code.
+    INVALID_OPERATION: 'INVALID_OPERATION' as string,
+    TIMEOUT: 'TIMEOUT',
+    CANCELLED: 'CANCELLED',
+    /**
+     * The handler result does not match the `returns` class of the operation.
+     */
+    INVALID_RESULT: 'INVALID_RESULT',
+  } as const;
+  /**
+   * HTTP status codes of the error codes used by the
+   * `OperationFailedExceptionFilter`. Unlisted codes respond with 500.
+   */
+  public static httpStatusCodes: Record<string, number> = {
+    INTERNAL_HANDLER_ERROR: 500,
+    HANDLER_NOT_FOUND: 501,
+    INVALID_OPERATION: 400,
+    TIMEOUT: 504,
+    CANCELLED: 499,
+    INVALID_RESULT: 500,
   };
 
+  /**
+   * The base of the problem type URIs. The type URI of a problem is the base
+   * followed by the operation type and the error code.
+   */
+  public static problemTypeBaseUri = '/problems';
+
+  /**
+   * The reason responded instead of the reason of a server error.
+   */
+  public static internalErrorReason = 'Internal server error';
+
+  /**
+   * The ids of the failed operation execution. (Set when the exception
+   * leaves the execution of the operation.)
+   */
+  public execution?: OperationExecutionIds;
+
   constructor(
     public readonly code: string,
     public readonly operation: O,
@@ -26,6 +191,207 @@ export class OperationFailedException<
     super(`Cqrs operation "${operation.constructor.name}" failed! ${reason}`);
   }
 
+  /**
+   * Returns the HTTP status code declared for the error code by the
+   * `httpStatusCodes` of the exception class. (Default: 500)
+   */
+  public getHttpStatus(): number {
+    const exceptionFactory = this
+      .constructor as OperationFailedExceptionFactory;
+
+    return exceptionFactory.httpStatusCodes[this.code] ?? 500;
+  }
+
+  /**
+   * Returns the reason safe to respond to the client. The reason of an
+   * internal handler error or any other server error (HTTP status 5xx) may
+   * expose the internals, so it is replaced by the `internalErrorReason` of
+   * the exception class.
+   */
+  public getPublicReason(): string {
+    const exceptionFactory = this
+      .constructor as OperationFailedExceptionFactory;
+
+    return this.code === exceptionFactory.errorCodes.INTERNAL_HANDLER_ERROR ||
+      this.getHttpStatus() >= 500
+      ? exceptionFactory.internalErrorReason
+      : this.reason;
+  }
+
+  /**
+   * Returns the failed constraints of an invalid operation or `undefined`
+   * if the operation did not fail on the validation.
+   */
+  public getValidationErrors(): OperationValidationErrorDetails[] | undefined {
+    const exceptionFactory = this
+      .constructor as OperationFailedExceptionFactory;
+
+    if (
+      this.code !== exceptionFactory.errorCodes.INVALID_OPERATION ||
+      !(this.origError instanceof AggregateError)
+    ) {
+      return undefined;
+    }
+
+    return exceptionFactory.flattenValidationErrors(this.origError.errors);
+  }
+
+  /**
+   * Returns the failed constraints of an invalid handler result or
+   * `undefined` if the operation did not fail on the result validation.
+   * (They are not part of the problem details, as the result is internal.)
+   */
+  public getResultValidationErrors():
+    OperationValidationErrorDetails[] | undefined {
+    const exceptionFactory = this
+      .constructor as OperationFailedExceptionFactory;
+
+    if (
+      this.code !== exceptionFactory.errorCodes.INVALID_RESULT ||
+      !(this.origError instanceof AggregateError)
+    ) {
+      return undefined;
+    }
+
+    return exceptionFactory.flattenValidationErrors(this.origError.errors);
+  }
+
+  /**
+   * Describes the failure as an RFC 7807 problem. The `detail` of a server
+   * error is the generic `internalErrorReason`. (See `getPublicReason()`.)
+   */
+  public toProblemDetails(
+    options: OperationProblemDetailsOptions = {},
+  ): OperationProblemDetails {
+    const exceptionFactory = this
+      .constructor as OperationFailedExceptionFactory;
+    const operationName = this.operation.constructor.name;
+    const typeBaseUri = (
+      options.typeBaseUri ?? exceptionFactory.problemTypeBaseUri
+    ).replace(/\/+$/, '');
+    const validationErrors = this.getValidationErrors();
+
+    return {
+      type: `${typeBaseUri}/${operationName}/${this.code}`,
+      title: `${exceptionFactory.operationType} "${operationName}" failed with the code "${this.code}"`,
+      status: this.getHttpStatus(),
+      detail: this.getPublicReason(),
+      ...(options.instance && { instance: options.instance }),
+      code: this.code,
+      operation: operationName,
+      ...(validationErrors && { errors: validationErrors }),
+    };
+  }
+
+  /**
+   * Restores the exception from an RFC 7807 problem. The operation is not
+   * part of the problem, so the exception references an empty object of
+   * the same type instead.
+   */
+  public static fromProblemDetails(problem: OperationProblemDetails) {
+    const origError = problem.errors
+      ? new AggregateError(
+          problem.errors.map((error) =>
+            Object.assign(new ValidationError(), {
+              property: error.path,
+              value: error.value,
+              constraints: { [error.constraint]: error.message },
+              children: [],
+            }),
+          ),
+          `Validation failed!`,
+        )
+      : undefined;
+
+    return new this(
+      problem.code,
+      createOperationPlaceholder(problem.operation),
+      problem.detail,
+      origError,
+    );
+  }
+
+  /**
+   * Serializes the exception including the operation payload, the execution
+   * ids and the original error, so it can be restored by `fromJSON()` in
+   * another process.
+   */
+  public toJSON(): OperationFailedExceptionJson {
+    return {
+      exception: this.constructor.name,
+      code: this.code,
+      reason: this.reason,
+      operation: {
+        type: this.operation.constructor.name,
+        payload: instanceToPlain(redactSensitive(this.operation)),
+      },
+      ...(this.execution && { execution: { ...this.execution } }),
+      ...(this.origError && { origError: serializeError(this.origError) }),
+    };
+  }
+
+  /**
+   * Restores an exception serialized by `toJSON()`. The registry resolves
+   * the operation class and its exception class. When the operation is
+   * unknown, the exception is created by the called class and references an
+   * empty object of the same type instead of the operation.
+   */
+  public static fromJSON(
+    json: OperationFailedExceptionJson,
+    registry?: OperationFailedExceptionRegistry,
+  ): OperationFailedException<object, Error> {
+    const entry = registry?.get(json.operation.type);
+    const exceptionFactory =
+      entry?.exceptionFactory.name === json.exception
+        ? entry.exceptionFactory
+        : this;
+    const operation = entry
+      ? plainToInstance(entry.operationCtor, json.operation.payload)
+      : Object.assign(
+          createOperationPlaceholder(json.operation.type),
+          json.operation.payload,
+        );
+
+    const exception = new exceptionFactory(
+      json.code,
+      operation,
+      json.reason,
+      json.origError && deserializeError(json.origError, registry),
+    );
+
+    if (json.execution) {
+      exception.execution = { ...json.execution };
+    }
+
+    return exception;
+  }
+
+  /**
+   * Flattens the tree of validation errors into a list of the failed
+   * constraints with the paths of the invalid properties.
+   */
+  public static flattenValidationErrors(
+    errors: ValidationError[],
+    parentPath = '',
+  ): OperationValidationErrorDetails[] {
+    return errors.flatMap((error) => {
+      const path = buildValidationErrorPath(error.property, parentPath);
+      const details = Object.entries(error.constraints ?? {}).map(
+        ([constraint, message]) => ({
+          path,
+          constraint,
+          message,
+          ...(error.value !== undefined && { value: error.value }),
+        }),
+      );
+
+      return [
+        ...details,
+        ...this.flattenValidationErrors(error.children ?? [], path),
+      ];
+    });
+  }
+
   public static HandlerNotFound<O extends object>(
     operation: O,
     origError: Error,
@@ -59,11 +425,34 @@ export class OperationFailedException<
     return new this(code, operation, message, origError);
   }
 
+  public static Timeout<O extends object>(operation: O, timeout: number) {
+    const operationName = operation.constructor.name;
+
+    return new this(
+      this.errorCodes.TIMEOUT,
+      operation,
+      `${this.operationType} "${operationName}" timed out after ${timeout}ms!`,
+    );
+  }
+
+  public static Cancelled<O extends object>(operation: O, reason?: unknown) {
+    const operationName = operation.constructor.name;
+
+    return new this(
+      this.errorCodes.CANCELLED,
+      operation,
+      `${this.operationType} "${operationName}" was cancelled!`,
+      reason instanceof Error ? reason : undefined,
+    );
+  }
+
   public static InvalidOperation<O extends object>(
     action: O,
     validationErrors: ValidationError[],
   ) {
-    const validationMessages = validationErrors
+    // The values of sensitive properties never leave the validation.
+    const redactedErrors = redactValidationErrors(validationErrors);
+    const validationMessages = redactedErrors
       .map((error) => this.buildValidationErrorMessage(error))
       .join('\n');
     const message = `Invalid ${this.operationType}: ${validationMessages}`;
@@ -72,7 +461,28 @@ export class OperationFailedException<
       this.errorCodes.INVALID_OPERATION,
       action,
       message,
-      new AggregateError(validationErrors, `Validation failed!`),
+      new AggregateError(redactedErrors, `Validation failed!`),
+    );
+  }
+
+  public static InvalidResult<O extends object>(
+    operation: O,
+    validationErrors: ValidationError[],
+  ) {
+    const operationName = operation.constructor.name;
+    const redactedErrors = redactValidationErrors(validationErrors);
+    const validationMessages = redactedErrors
+      .map((error) => this.buildValidationErrorMessage(error))
+      .join('\n');
+    const message =
+      `Invalid result of the ${this.operationType} "${operationName}": ` +
+      validationMessages;
+
+    return new this(
+      this.errorCodes.INVALID_RESULT,
+      operation,
+      message,
+      new AggregateError(redactedErrors, `Result validation failed!`),
     );
   }
 
@@ -106,6 +516,180 @@ export class OperationFailedException<
   }
 }
 
+function buildValidationErrorPath(
+  property: string,
+  parentPath: string,
+): string {
+  // Items of validated arrays are reported as children named by indices.
+  if (/^\d+$/.test(property)) {
+    return `${parentPath}[${property}]`;
+  }
+
+  return parentPath ? `${parentPath}.${property}` : property;
+}
+
+function redactValidationErrors(errors: ValidationError[]): ValidationError[] {
+  return errors.map((error) => {
+    const options = getSensitiveOptions(error.target, error.property);
+    const redactedError = Object.assign(new ValidationError(), error, {
+      ...(error.target && { target: redactSensitive(error.target) }),
+      // An object value may hold nested sensitive properties.
+      value: redactSensitive(error.value),
+      children: redactValidationErrors(error.children ?? []),
+    });
+
+    if (!options || error.value === undefined) {
+      return redactedError;
+    }
+
+    const redactedValue = redactSensitiveValue(error.value, options);
+
+    redactedError.value = redactedValue;
+
+    if (error.constraints) {
+      redactedError.constraints = Object.fromEntries(
+        Object.entries(error.constraints).map(([constraint, message]) => [
+          constraint,
+          redactConstraintMessage(error, constraint, message, redactedValue),
+        ]),
+      );
+    }
+
+    return redactedError;
+  });
+}
+
+/**
+ * Regenerates the message of the failed constraint with the redacted value,
+ * as custom messages may interpolate the validated value. A message of an
+ * unknown constraint is replaced if it contains the raw value.
+ */
+function redactConstraintMessage(
+  error: ValidationError,
+  constraint: string,
+  message: string,
+  redactedValue: string,
+): string {
+  const target = error.target as object;
+  const found = getMetadataStorage()
+    .getTargetValidationMetadatas(target.constructor, '', true, false)
+    .filter((metadata) => metadata.propertyName === error.property)
+    .flatMap((metadata) =>
+      getMetadataStorage()
+        .getTargetValidatorConstraints(metadata.constraintCls)
+        .filter(
+          (constraintMetadata) =>
+            (constraintMetadata.name || metadata.type) === constraint,
+        )
+        .map((constraintMetadata) => ({ metadata, constraintMetadata })),
+    )[0];
+
+  if (!found) {
+    const rawValue = String(error.value);
+
+    return rawValue !== '' && message.includes(rawValue)
+      ? `${error.property} is invalid`
+      : message;
+  } else if (message === '') {
+    // The default messages were dismissed.
+    return message;
+  }
+
+  const { metadata, constraintMetadata } = found;
+  const args: ValidationArguments = {
+    targetName: target.constructor.name,
+    property: error.property,
+    object: redactSensitive(target),
+    value: redactedValue,
+    constraints: metadata.constraints,
+  };
+  const template =
+    metadata.message || constraintMetadata.instance.defaultMessage?.(args);
+  let redactedMessage =
+    (typeof template === 'function' ? template(args) : template) ?? '';
+
+  (metadata.constraints ?? []).forEach((value: unknown, index: number) => {
+    redactedMessage = redactedMessage
+      .split(`$constraint${index + 1}`)
+      .join(Array.isArray(value) ? value.join(', ') : String(value));
+  });
+
+  return redactedMessage
+    .split('$value')
+    .join(redactedValue)
+    .split('$property')
+    .join(args.property)
+    .split('$target')
+    .join(args.targetName);
+}
+
+function createOperationPlaceholder(operationType: string): object {
+  // The computed property keeps the name of the class.
+  const OperationPlaceholder = { [operationType]: class {} }[operationType];
+
+  return new OperationPlaceholder();
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof OperationFailedException) {
+    return { kind: 'operation-failed', ...error.toJSON() };
+  } else if (error instanceof ValidationError) {
+    return {
+      kind: 'validation',
+      property: error.property,
+      ...(error.value !== undefined && { value: error.value }),
+      ...(error.constraints && { constraints: { ...error.constraints } }),
+      children: (error.children ?? []).map(serializeError),
+    };
+  } else if (error instanceof Error) {
+    return {
+      kind: 'error',
+      name: error.name,
+      message: error.message,
+      ...(error.stack && { stack: error.stack }),
+      ...(error instanceof AggregateError && {
+        errors: error.errors.map(serializeError),
+      }),
+    };
+  }
+
+  return { kind: 'error', name: 'Error', message: String(error) };
+}
+
+function deserializeError(
+  json: SerializedError,
+  registry?: OperationFailedExceptionRegistry,
+): any {
+  switch (json.kind) {
+    case 'operation-failed':
+      return OperationFailedException.fromJSON(json, registry);
+    case 'validation':
+      return Object.assign(new ValidationError(), {
+        property: json.property,
+        value: json.value,
+        constraints: json.constraints,
+        children: json.children.map((child) =>
+          deserializeError(child, registry),
+        ),
+      });
+    default: {
+      const error = json.errors
+        ? new AggregateError(
+            json.errors.map((child) => deserializeError(child, registry)),
+            json.message,
+          )
+        : new Error(json.message);
+      error.name = json.name;
+
+      if (json.stack) {
+        error.stack = json.stack;
+      }
+
+      return error;
+    }
+  }
+}
+
 export class CommandFailedException<
   C extends object = object,
   E extends Error = Error,
@@ -124,7 +708,31 @@ export class CommandFailedException<
      * validation failed).
      */
     INVALID_OPERATION: 'INVALID_COMMAND',
+    /**
+     * A command with the same idempotency key is still being executed.
+     */
+    DUPLICATE_IN_PROGRESS: 'DUPLICATE_IN_PROGRESS',
+  } as const;
+
+  public static httpStatusCodes: Record<string, number> = {
+    ...OperationFailedException.httpStatusCodes,
+    INVALID_COMMAND: 400,
+    DUPLICATE_IN_PROGRESS: 409,
   };
+
+  public static DuplicateInProgress<C extends object>(
+    command: C,
+    idempotencyKey: string,
+  ) {
+    const commandName = command.constructor.name;
+
+    return new this(
+      this.errorCodes.DUPLICATE_IN_PROGRESS,
+      command,
+      `${this.operationType} "${commandName}" with the idempotency key ` +
+        `"${idempotencyKey}" is already in progress!`,
+    );
+  }
 }
 
 export class QueryFailedException<
@@ -139,5 +747,10 @@ export class QueryFailedException<
   public static errorCodes = {
     ...OperationFailedException.errorCodes,
     INVALID_OPERATION: 'INVALID_QUERY',
+  } as const;
+
+  public static httpStatusCodes: Record<string, number> = {
+    ...OperationFailedException.httpStatusCodes,
+    INVALID_QUERY: 400,
   };
 }
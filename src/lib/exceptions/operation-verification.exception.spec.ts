@@ -0,0 +1,63 @@
+import { OperationVerificationException } from './operation-verification.exception';
+
+describe('(Unit) OperationVerificationException', () => {
+  describe('#constructor()', () => {
+    it('should list the handlers of the undecorated operations', () => {
+      // Arrange
+      const issues = {
+        missingHandlers: [],
+        undecoratedOperations: [
+          { handler: 'GetInvoiceHandler', operation: 'GetInvoice' },
+        ],
+        duplicateHandlers: [],
+      };
+      // Act
+      const exception = new OperationVerificationException(issues);
+      // Assert
+      expect(exception.message).toBe(
+        [
+          'Cqrs operations verification failed!',
+          'Handlers of undecorated operations:',
+          '\t- GetInvoiceHandler handles GetInvoice',
+        ].join('\n'),
+      );
+    });
+
+    it('should list the operations with multiple handlers', () => {
+      // Arrange
+      const issues = {
+        missingHandlers: [],
+        undecoratedOperations: [],
+        duplicateHandlers: [
+          {
+            operation: 'CancelOrder',
+            handlers: ['CancelOrderHandler', 'LegacyCancelOrderHandler'],
+          },
+        ],
+      };
+      // Act
+      const exception = new OperationVerificationException(issues);
+      // Assert
+      expect(exception.message).toBe(
+        [
+          'Cqrs operations verification failed!',
+          'Operations with multiple handlers:',
+          '\t- CancelOrder is handled by CancelOrderHandler, LegacyCancelOrderHandler',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('hasIssues()', () => {
+    it('should be false without any issue', () => {
+      // Act
+      const hasIssues = OperationVerificationException.hasIssues({
+        missingHandlers: [],
+        undecoratedOperations: [],
+        duplicateHandlers: [],
+      });
+      // Assert
+      expect(hasIssues).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+export type OperationVerificationIssues = {
+  /**
+   * Types of the operations without any handler.
+   */
+  missingHandlers: string[];
+  /**
+   * Handlers of classes not decorated by `@Command` or `@Query`.
+   */
+  undecoratedOperations: Array<{ handler: string; operation: string }>;
+  /**
+   * Operations handled by more than one handler.
+   */
+  duplicateHandlers: Array<{ operation: string; handlers: string[] }>;
+};
+
+/**
+ * Thrown on the application bootstrap in the `strict` mode when the declared
+ * operations do not match their handlers.
+ */
+export class OperationVerificationException extends Error {
+  constructor(public readonly issues: OperationVerificationIssues) {
+    super(OperationVerificationException.buildMessage(issues));
+  }
+
+  public static hasIssues(issues: OperationVerificationIssues): boolean {
+    return (
+      issues.missingHandlers.length > 0 ||
+      issues.undecoratedOperations.length > 0 ||
+      issues.duplicateHandlers.length > 0
+    );
+  }
+
+  public static buildMessage(issues: OperationVerificationIssues): string {
+    const lines = ['Cqrs operations verification failed!'];
+
+    if (issues.missingHandlers.length > 0) {
+      lines.push('Operations without a handler:');
+      lines.push(...issues.missingHandlers.map((name) => `\t- ${name}`));
+    }
+
+    if (issues.undecoratedOperations.length > 0) {
+      lines.push('Handlers of undecorated operations:');
+      lines.push(
+        ...issues.undecoratedOperations.map(
+          ({ handler, operation }) => `\t- ${handler} handles ${operation}`,
+        ),
+      );
+    }
+
+    if (issues.duplicateHandlers.length > 0) {
+      lines.push('Operations with multiple handlers:');
+      lines.push(
+        ...issues.duplicateHandlers.map(
+          ({ operation, handlers }) =>
+            `\t- ${operation} is handled by ${handlers.join(', ')}`,
+        ),
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1 @@
+export * from './operation-failed.filter';
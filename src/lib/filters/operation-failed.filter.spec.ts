@@ -0,0 +1,179 @@
+import { ArgumentsHost } from '@nestjs/common';
+import { AbstractHttpAdapter, HttpAdapterHost } from '@nestjs/core';
+import { ValidationError } from 'class-validator';
+import { mock } from 'jest-mock-extended';
+import { CommandFailedException, QueryFailedException } from '../exceptions';
+import { OperationFailedExceptionFilter } from './operation-failed.filter';
+
+describe('(Unit) OperationFailedExceptionFilter', () => {
+  class CreateUser {}
+
+  class CreateUserFailed extends CommandFailedException<CreateUser> {
+    public static errorCodes = {
+      ...CommandFailedException.errorCodes,
+      USER_ALREADY_EXISTS: 'USER_ALREADY_EXISTS',
+    };
+
+    public static httpStatusCodes = {
+      ...CommandFailedException.httpStatusCodes,
+      USER_ALREADY_EXISTS: 409,
+    };
+  }
+
+  describe('getHttpStatus()', () => {
+    it('should map an invalid command to 400', () => {
+      // Arrange
+      const exception = CommandFailedException.InvalidOperation(
+        new CreateUser(),
+        [],
+      );
+      // Act
+      const status = OperationFailedExceptionFilter.getHttpStatus(exception);
+      // Assert
+      expect(status).toBe(400);
+    });
+
+    it('should map an invalid query to 400', () => {
+      // Arrange
+      const exception = QueryFailedException.InvalidOperation(
+        new CreateUser(),
+        [],
+      );
+      // Act
+      const status = OperationFailedExceptionFilter.getHttpStatus(exception);
+      // Assert
+      expect(status).toBe(400);
+    });
+
+    it('should map a missing handler to 501', () => {
+      // Arrange
+      const exception = CommandFailedException.HandlerNotFound(
+        new CreateUser(),
+        new Error(),
+      );
+      // Act
+      const status = OperationFailedExceptionFilter.getHttpStatus(exception);
+      // Assert
+      expect(status).toBe(501);
+    });
+
+    it('should map a custom code declared by the exception class', () => {
+      // Arrange
+      const exception = new CreateUserFailed(
+        CreateUserFailed.errorCodes.USER_ALREADY_EXISTS,
+        new CreateUser(),
+        'User already exists!',
+      );
+      // Act
+      const status = OperationFailedExceptionFilter.getHttpStatus(exception);
+      // Assert
+      expect(status).toBe(409);
+    });
+
+    it('should map an unknown code to 500', () => {
+      // Arrange
+      const exception = new CommandFailedException(
+        'UNKNOWN',
+        new CreateUser(),
+        'Unknown error!',
+      );
+      // Act
+      const status = OperationFailedExceptionFilter.getHttpStatus(exception);
+      // Assert
+      expect(status).toBe(500);
+    });
+  });
+
+  describe('createResponseBody()', () => {
+    it('should list the validation errors with nested property paths', () => {
+      // Arrange
+      const addressError = new ValidationError();
+      addressError.property = 'address';
+      addressError.children = [
+        Object.assign(new ValidationError(), {
+          property: 'street',
+          constraints: { isString: 'street must be a string' },
+          children: [],
+        }),
+      ];
+      const exception = CommandFailedException.InvalidOperation(
+        new CreateUser(),
+        [addressError],
+      );
+      // Act
+      const body = OperationFailedExceptionFilter.createResponseBody(exception);
+      // Assert
+      expect(body).toEqual({
+        statusCode: 400,
+        code: 'INVALID_COMMAND',
+        reason: exception.reason,
+        validationErrors: [
+          {
+            path: 'address.street',
+            constraint: 'isString',
+            message: 'street must be a string',
+          },
+        ],
+      });
+    });
+
+    it('should respond with a generic reason of an internal handler error', () => {
+      // Arrange
+      const exception = CommandFailedException.InternalHandlerError(
+        new CreateUser(),
+        new Error('Connection to db.internal:5432 refused'),
+      );
+      // Act
+      const body = OperationFailedExceptionFilter.createResponseBody(exception);
+      // Assert
+      expect(body).toEqual({
+        statusCode: 500,
+        code: 'INTERNAL_HANDLER_ERROR',
+        reason: 'Internal server error',
+      });
+    });
+
+    it('should respond with a generic reason of a server error', () => {
+      // Arrange
+      const exception = CommandFailedException.Timeout(new CreateUser(), 100);
+      // Act
+      const body = OperationFailedExceptionFilter.createResponseBody(exception);
+      // Assert
+      expect(body.reason).toBe('Internal server error');
+    });
+  });
+
+  describe('#catch()', () => {
+    it('should reply with the response body and status code', () => {
+      // Arrange
+      const httpAdapter = mock<AbstractHttpAdapter>();
+      const response = {};
+      const host = mock<ArgumentsHost>();
+      host.switchToHttp.mockReturnValue({
+        getResponse: () => response,
+        getRequest: jest.fn(),
+        getNext: jest.fn(),
+      } as any);
+      const filter = new OperationFailedExceptionFilter({
+        httpAdapter,
+      } as unknown as HttpAdapterHost);
+      const exception = new CreateUserFailed(
+        CreateUserFailed.errorCodes.USER_ALREADY_EXISTS,
+        new CreateUser(),
+        'User already exists!',
+      );
+      // Act
+      filter.catch(exception, host);
+      // Assert
+      expect(httpAdapter.reply).toHaveBeenCalledWith(
+        response,
+        {
+          statusCode: 409,
+          code: 'USER_ALREADY_EXISTS',
+          reason: 'User already exists!',
+        },
+        409,
+      );
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import {
+  OperationFailedException,
+  OperationValidationErrorDetails,
+} from '../exceptions';
+
+export type OperationFailedResponseBody = {
+  statusCode: number;
+  code: string;
+  reason: string;
+  /**
+   * Present only for the invalid operations.
+   */
+  validationErrors?: OperationValidationErrorDetails[];
+};
+
+/**
+ * Responds to a failed command or query with the HTTP status code declared
+ * for its error code by the `httpStatusCodes` of the exception class. The
+ * reason of a server error is responded as a generic message. The filter does
+ * not log; the original reason is kept in the failure log of the operation.
+ */
+@Catch(OperationFailedException)
+export class OperationFailedExceptionFilter implements ExceptionFilter {
+  constructor(private readonly httpAdapterHost: HttpAdapterHost) {}
+
+  public catch(
+    exception: OperationFailedException<object>,
+    host: ArgumentsHost,
+  ): void {
+    const { httpAdapter } = this.httpAdapterHost;
+    const body = OperationFailedExceptionFilter.createResponseBody(exception);
+
+    httpAdapter.reply(host.switchToHttp().getResponse(), body, body.statusCode);
+  }
+
+  public static getHttpStatus(
+    exception: OperationFailedException<object>,
+  ): number {
+    return exception.getHttpStatus();
+  }
+
+  public static createResponseBody(
+    exception: OperationFailedException<object>,
+  ): OperationFailedResponseBody {
+    const validationErrors = exception.getValidationErrors();
+
+    return {
+      statusCode: exception.getHttpStatus(),
+      code: exception.code,
+      reason: exception.getPublicReason(),
+      ...(validationErrors && { validationErrors }),
+    };
+  }
+}
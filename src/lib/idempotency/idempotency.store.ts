@@ -0,0 +1,38 @@
+import { OperationFailedException } from '../exceptions';
+
+/**
+ * The remembered outcome of an idempotent command.
+ */
+export type IdempotencyRecord =
+  | { status: 'in-progress' }
+  | { status: 'succeeded'; result: unknown }
+  | { status: 'failed'; exception: OperationFailedException<any, any> };
+
+/**
+ * A storage of idempotent command outcomes. The abstract class serves also
+ * as an injection token of the store.
+ */
+export abstract class IdempotencyStore {
+  /**
+   * Atomically marks the key as in progress if it is not known yet. Returns
+   * the existing record of a known key, or `undefined` if the key was
+   * acquired by the caller.
+   */
+  public abstract acquire(
+    key: string,
+    ttl: number,
+  ): Promise<IdempotencyRecord | undefined>;
+  /**
+   * Replaces the in progress record of an acquired key with the outcome of
+   * the command.
+   */
+  public abstract complete(
+    key: string,
+    record: IdempotencyRecord,
+    ttl: number,
+  ): Promise<void>;
+  /**
+   * Forgets the key, so the command can be executed again.
+   */
+  public abstract release(key: string): Promise<void>;
+}
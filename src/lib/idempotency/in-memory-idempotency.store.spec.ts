@@ -0,0 +1,83 @@
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+
+describe('(Unit) InMemoryIdempotencyStore', () => {
+  describe('#acquire()', () => {
+    it('should acquire an unknown key', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore();
+      // Act
+      const record = await store.acquire('key', 1000);
+      // Assert
+      expect(record).toBeUndefined();
+    });
+
+    it('should return an in progress record of an acquired key', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore();
+      await store.acquire('key', 1000);
+      // Act
+      const record = await store.acquire('key', 1000);
+      // Assert
+      expect(record).toEqual({ status: 'in-progress' });
+    });
+
+    it('should acquire an expired key again', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore();
+      await store.complete('key', { status: 'succeeded', result: 42 }, -1);
+      // Act
+      const record = await store.acquire('key', 1000);
+      // Assert
+      expect(record).toBeUndefined();
+    });
+  });
+
+  describe('#complete()', () => {
+    it('should replace the record of an acquired key', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore();
+      await store.acquire('key', 1000);
+      // Act
+      await store.complete('key', { status: 'succeeded', result: 42 }, 1000);
+      // Assert
+      await expect(store.acquire('key', 1000)).resolves.toEqual({
+        status: 'succeeded',
+        result: 42,
+      });
+    });
+  });
+
+  describe('#release()', () => {
+    it('should forget the key', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore();
+      await store.acquire('key', 1000);
+      // Act
+      await store.release('key');
+      // Assert
+      await expect(store.acquire('key', 1000)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('sweeping', () => {
+    it('should remove the expired outcomes on a write', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore(0);
+      await store.complete('expired', { status: 'succeeded', result: 1 }, -1);
+      // Act
+      await store.acquire('key', 1000);
+      // Assert
+      expect(store.size).toBe(1);
+    });
+
+    it('should not sweep more often than the sweep interval', async () => {
+      // Arrange
+      const store = new InMemoryIdempotencyStore(60 * 1000);
+      await store.complete('expired', { status: 'succeeded', result: 1 }, -1);
+      // Act
+      await store.acquire('key', 1000);
+      // Assert
+      expect(store.size).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { IdempotencyRecord, IdempotencyStore } from './idempotency.store';
+
+type InMemoryIdempotencyEntry = {
+  record: IdempotencyRecord;
+  expiresAt: number;
+};
+
+/**
+ * Keeps the command outcomes in the process memory. Suitable for tests and
+ * single instance deployments. The expired outcomes are swept on writes at
+ * most once per the sweep interval.
+ */
+export class InMemoryIdempotencyStore extends IdempotencyStore {
+  private readonly entries = new Map<string, InMemoryIdempotencyEntry>();
+
+  private lastSweepAt = Date.now();
+
+  /**
+   * @param sweepInterval The minimal time in milliseconds between the sweeps
+   * of the expired outcomes. (Default: 1 minute)
+   */
+  constructor(private readonly sweepInterval = 60 * 1000) {
+    super();
+  }
+
+  public async acquire(
+    key: string,
+    ttl: number,
+  ): Promise<IdempotencyRecord | undefined> {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.record;
+    }
+
+    this.write(key, { status: 'in-progress' }, ttl);
+
+    return undefined;
+  }
+
+  public async complete(
+    key: string,
+    record: IdempotencyRecord,
+    ttl: number,
+  ): Promise<void> {
+    this.write(key, record, ttl);
+  }
+
+  public async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * The number of the kept outcomes including the expired ones which were
+   * not swept yet.
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  private write(key: string, record: IdempotencyRecord, ttl: number): void {
+    const now = Date.now();
+
+    if (now - this.lastSweepAt >= this.sweepInterval) {
+      this.lastSweepAt = now;
+
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(entryKey);
+        }
+      }
+    }
+
+    this.entries.set(key, { record, expiresAt: now + ttl });
+  }
+}
@@ -0,0 +1,2 @@
+export * from './idempotency.store';
+export * from './in-memory-idempotency.store';
@@ -0,0 +1,17 @@
+import { CqrsMetrics } from './cqrs.metrics';
+import { CqrsMetricsController } from './cqrs-metrics.controller';
+
+describe('(Unit) CqrsMetricsController', () => {
+  describe('#getMetrics()', () => {
+    it('should return the metrics in the Prometheus text format', () => {
+      // Arrange
+      const metrics = new CqrsMetrics();
+      metrics.record('command', 'CreateUser', 'success', 10);
+      const controller = new CqrsMetricsController(metrics);
+      // Act
+      const text = controller.getMetrics();
+      // Assert
+      expect(text).toBe(metrics.toPrometheus());
+    });
+  });
+});
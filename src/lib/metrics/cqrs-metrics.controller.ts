@@ -0,0 +1,18 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { CqrsMetrics, PROMETHEUS_CONTENT_TYPE } from './cqrs.metrics';
+
+/**
+ * Exposes the operation metrics for the Prometheus scraper on `GET /metrics`.
+ * It is not registered by the `CqrsFactoryModule`, so it has to be added to
+ * the controllers of an application module.
+ */
+@Controller('metrics')
+export class CqrsMetricsController {
+  constructor(private readonly metrics: CqrsMetrics) {}
+
+  @Get()
+  @Header('Content-Type', PROMETHEUS_CONTENT_TYPE)
+  public getMetrics(): string {
+    return this.metrics.toPrometheus();
+  }
+}
@@ -0,0 +1,74 @@
+import { CqrsMetrics } from './cqrs.metrics';
+
+describe('(Unit) CqrsMetrics', () => {
+  describe('#record()', () => {
+    it('should count the executions by kind, name and outcome', () => {
+      // Arrange
+      const metrics = new CqrsMetrics();
+      // Act
+      metrics.record('command', 'CreateUser', 'success', 10);
+      metrics.record('command', 'CreateUser', 'success', 20);
+      metrics.record('command', 'CreateUser', 'USER_EXISTS', 30);
+      // Assert
+      const text = metrics.toPrometheus();
+      expect(text).toContain(
+        'cqrs_operations_total{kind="command",name="CreateUser",outcome="success"} 2',
+      );
+      expect(text).toContain(
+        'cqrs_operations_total{kind="command",name="CreateUser",outcome="USER_EXISTS"} 1',
+      );
+    });
+
+    it('should observe the durations in the configured buckets', () => {
+      // Arrange
+      const metrics = new CqrsMetrics({ metricsBuckets: [1, 0.1] });
+      // Act
+      metrics.record('query', 'GetUser', 'success', 50);
+      metrics.record('query', 'GetUser', 'success', 500);
+      metrics.record('query', 'GetUser', 'success', 5000);
+      // Assert
+      expect(metrics.toPrometheus().split('\n')).toEqual(
+        expect.arrayContaining([
+          '# TYPE cqrs_operation_duration_seconds histogram',
+          'cqrs_operation_duration_seconds_bucket{kind="query",name="GetUser",le="0.1"} 1',
+          'cqrs_operation_duration_seconds_bucket{kind="query",name="GetUser",le="1"} 2',
+          'cqrs_operation_duration_seconds_bucket{kind="query",name="GetUser",le="+Inf"} 3',
+          'cqrs_operation_duration_seconds_sum{kind="query",name="GetUser"} 5.55',
+          'cqrs_operation_duration_seconds_count{kind="query",name="GetUser"} 3',
+        ]),
+      );
+    });
+  });
+
+  describe('#reset()', () => {
+    it('should remove the collected metrics', () => {
+      // Arrange
+      const metrics = new CqrsMetrics();
+      metrics.record('command', 'CreateUser', 'success', 10);
+      // Act
+      metrics.reset();
+      // Assert
+      expect(metrics.toPrometheus()).not.toContain('CreateUser');
+    });
+  });
+
+  describe('#toPrometheus()', () => {
+    it('should escape the label values', () => {
+      // Arrange
+      const metrics = new CqrsMetrics();
+      // Act
+      metrics.record('command', 'Create"User\\', 'success', 10);
+      // Assert
+      expect(metrics.toPrometheus()).toContain('name="Create\\"User\\\\"');
+    });
+
+    it('should end with a line feed', () => {
+      // Arrange
+      const metrics = new CqrsMetrics();
+      // Act
+      const text = metrics.toPrometheus();
+      // Assert
+      expect(text.endsWith('\n')).toBe(true);
+    });
+  });
+});
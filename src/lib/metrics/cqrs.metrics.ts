@@ -0,0 +1,167 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import {
+  CQRS_FACTORY_MODULE_OPTIONS,
+  CqrsFactoryModuleOptions,
+} from '../cqrs-module.options';
+
+/**
+ * The content type of the Prometheus text exposition format.
+ */
+export const PROMETHEUS_CONTENT_TYPE =
+  'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * The default upper bounds of the latency histogram buckets in seconds.
+ */
+export const DEFAULT_CQRS_METRICS_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+type CqrsMetricsCounter = {
+  labels: Record<string, string>;
+  value: number;
+};
+
+type CqrsMetricsHistogram = {
+  labels: Record<string, string>;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+};
+
+/**
+ * Collects the outcomes and durations of the executed operations in the
+ * process memory. The metrics are exposed in the Prometheus text exposition
+ * format.
+ */
+@Injectable()
+export class CqrsMetrics {
+  private readonly buckets: number[];
+
+  private readonly counters = new Map<string, CqrsMetricsCounter>();
+
+  private readonly histograms = new Map<string, CqrsMetricsHistogram>();
+
+  constructor(
+    @Optional()
+    @Inject(CQRS_FACTORY_MODULE_OPTIONS)
+    options: CqrsFactoryModuleOptions = {},
+  ) {
+    this.buckets = [
+      ...(options.metricsBuckets ?? DEFAULT_CQRS_METRICS_BUCKETS),
+    ].sort((a, b) => a - b);
+  }
+
+  /**
+   * Records an operation execution.
+   *
+   * @param kind The kind of the operation. (command or query)
+   * @param name The name of the operation.
+   * @param outcome `success` or the error code of the failure.
+   * @param duration The duration of the execution in milliseconds.
+   */
+  public record(
+    kind: string,
+    name: string,
+    outcome: string,
+    duration: number,
+  ): void {
+    const counterLabels = { kind, name, outcome };
+    const counterKey = JSON.stringify(counterLabels);
+    const counter = this.counters.get(counterKey) ?? {
+      labels: counterLabels,
+      value: 0,
+    };
+    counter.value++;
+    this.counters.set(counterKey, counter);
+
+    const histogramLabels = { kind, name };
+    const histogramKey = JSON.stringify(histogramLabels);
+    const histogram = this.histograms.get(histogramKey) ?? {
+      labels: histogramLabels,
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    const seconds = duration / 1000;
+
+    this.buckets.forEach((upperBound, index) => {
+      if (seconds <= upperBound) {
+        histogram.bucketCounts[index]++;
+      }
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+    this.histograms.set(histogramKey, histogram);
+  }
+
+  /**
+   * Removes all collected metrics.
+   */
+  public reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  /**
+   * Returns the collected metrics in the Prometheus text exposition format.
+   */
+  public toPrometheus(): string {
+    const lines = [
+      '# HELP cqrs_operations_total The number of executed cqrs operations.',
+      '# TYPE cqrs_operations_total counter',
+    ];
+
+    for (const { labels, value } of this.counters.values()) {
+      lines.push(
+        `cqrs_operations_total${CqrsMetrics.formatLabels(labels)} ${value}`,
+      );
+    }
+
+    lines.push(
+      '# HELP cqrs_operation_duration_seconds The duration of the cqrs ' +
+        'operations in seconds.',
+      '# TYPE cqrs_operation_duration_seconds histogram',
+    );
+
+    for (const histogram of this.histograms.values()) {
+      const labels = CqrsMetrics.formatLabels(histogram.labels);
+      // The buckets are cumulative, the last one counts all executions.
+      const buckets: [string, number][] = [
+        ...this.buckets.map((upperBound, index): [string, number] => [
+          String(upperBound),
+          histogram.bucketCounts[index],
+        ]),
+        ['+Inf', histogram.count],
+      ];
+
+      for (const [le, value] of buckets) {
+        const bucketLabels = CqrsMetrics.formatLabels({
+          ...histogram.labels,
+          le,
+        });
+        lines.push(
+          `cqrs_operation_duration_seconds_bucket${bucketLabels} ${value}`,
+        );
+      }
+      lines.push(
+        `cqrs_operation_duration_seconds_sum${labels} ${histogram.sum}`,
+        `cqrs_operation_duration_seconds_count${labels} ${histogram.count}`,
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private static formatLabels(labels: Record<string, string>): string {
+    const pairs = Object.entries(labels).map(
+      ([name, value]) =>
+        `${name}="${value
+          .replace(/\\/g, '\\\\')
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, '\\n')}"`,
+    );
+
+    return `{${pairs.join(',')}}`;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './cqrs.metrics';
+export * from './cqrs-metrics.controller';
@@ -0,0 +1,140 @@
+import {
+  CommandHandlerNotFoundException,
+  QueryHandlerNotFoundException,
+} from '@nestjs/cqrs';
+import {
+  OperationFailedException,
+  OperationFailedExceptionFactory,
+} from '../exceptions';
+import { Constructor } from 'type-fest';
+import { OperationMiddleware } from './operation.middleware';
+
+/**
+ * Names of the static factories of an exception class which create the
+ * exception from an operation and an error.
+ */
+export type OperationExceptionFactoryMethod<
+  E extends OperationFailedExceptionFactory<any, any>,
+> = {
+  [K in keyof E]: E[K] extends (
+    operation: any,
+    error: any,
+  ) => OperationFailedException<any, any>
+    ? K
+    : never;
+}[keyof E] &
+  string;
+
+/**
+ * Maps an error raised by the operation handler into the operation exception.
+ */
+export type OperationErrorMapping<
+  E extends OperationFailedExceptionFactory<any, any> =
+    OperationFailedExceptionFactory<any, any>,
+> = {
+  /**
+   * An error class or a predicate matching the raised error.
+   */
+  error: Constructor<Error> | ((error: unknown) => boolean);
+  /**
+   * The name of a static factory of the operation exception or a function
+   * creating the exception. Both are called with the operation and the
+   * raised error.
+   */
+  to:
+    | OperationExceptionFactoryMethod<E>
+    | ((
+        operation: any,
+        error: any,
+        exceptionFactory: E,
+      ) => OperationFailedException<any, any>);
+};
+
+function isErrorClass(
+  error: OperationErrorMapping['error'],
+): error is Constructor<Error> {
+  return error === Error || error.prototype instanceof Error;
+}
+
+function applyErrorMapping<O extends object>(
+  mapping: OperationErrorMapping,
+  error: unknown,
+  operation: O,
+  exceptionFactory: OperationFailedExceptionFactory<O, any>,
+): OperationFailedException<O, any> | undefined {
+  const matches = isErrorClass(mapping.error)
+    ? error instanceof mapping.error
+    : (mapping.error as (error: unknown) => boolean)(error);
+
+  if (!matches) {
+    return undefined;
+  } else if (typeof mapping.to === 'function') {
+    return mapping.to(operation, error, exceptionFactory);
+  }
+
+  const factoryMethod: unknown = Reflect.get(exceptionFactory, mapping.to);
+
+  // A global mapping may name a factory not declared by every exception.
+  return typeof factoryMethod === 'function'
+    ? factoryMethod.call(exceptionFactory, operation, error)
+    : undefined;
+}
+
+/**
+ * Maps the raised error or exception into appropriate OperationFailedException
+ * or any of its children. The raised error can by string, number, error,
+ * AggregateError or already an instance of OperationFailedException. The
+ * error mappings are tried in order before the error is considered internal.
+ */
+export function mapToOperationException<O extends object>(
+  error: unknown,
+  operation: O,
+  exceptionFactory: OperationFailedExceptionFactory<O, any>,
+  errorMappings: OperationErrorMapping[] = [],
+): OperationFailedException<O, any> {
+  if (error instanceof OperationFailedException) {
+    return error;
+  } else if (error instanceof CommandHandlerNotFoundException) {
+    return exceptionFactory.HandlerNotFound(operation, error);
+  } else if (error instanceof QueryHandlerNotFoundException) {
+    return exceptionFactory.HandlerNotFound(operation, error);
+  }
+
+  for (const mapping of errorMappings) {
+    const exception = applyErrorMapping(
+      mapping,
+      error,
+      operation,
+      exceptionFactory,
+    );
+
+    if (exception) {
+      return exception;
+    }
+  }
+
+  return exceptionFactory.InternalHandlerError(
+    operation,
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Rethrows any error raised by the inner middlewares or the handler as the
+ * exception declared by the operation decorator.
+ */
+export const exceptionMappingMiddleware: OperationMiddleware = async (
+  ctx,
+  next,
+) => {
+  try {
+    return await next();
+  } catch (error: unknown) {
+    throw mapToOperationException(
+      error,
+      ctx.operation,
+      ctx.exceptionFactory,
+      ctx.errorMappings,
+    );
+  }
+};
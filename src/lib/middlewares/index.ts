@@ -0,0 +1,17 @@
+import { OperationMiddleware } from './operation.middleware';
+import { exceptionMappingMiddleware } from './exception-mapping.middleware';
+import { loggingMiddleware } from './logging.middleware';
+
+export * from './operation.middleware';
+export * from './exception-mapping.middleware';
+export * from './logging.middleware';
+
+/**
+ * The built-in middlewares used when no global middlewares are configured.
+ * The logging wraps the exception mapping, so the failures are logged with
+ * their final error code.
+ */
+export const DEFAULT_OPERATION_MIDDLEWARES: readonly OperationMiddleware[] = [
+  loggingMiddleware,
+  exceptionMappingMiddleware,
+];
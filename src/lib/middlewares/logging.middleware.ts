@@ -0,0 +1,61 @@
+import {
+  OperationMiddleware,
+  OperationMiddlewareContext,
+} from './operation.middleware';
+import { OperationLogDetails } from '../services/operation-builder.service';
+import { mapToOperationException } from './exception-mapping.middleware';
+
+function computeDurationInMs(executionStartedAt: bigint): number {
+  const executionEndedAt = process.hrtime.bigint();
+  const executionTime = Number(executionEndedAt - executionStartedAt);
+  const durationInMs = executionTime / 1e6;
+
+  return durationInMs;
+}
+
+function getLogDetails(ctx: OperationMiddlewareContext): OperationLogDetails {
+  return {
+    attempts: ctx.attempts,
+    ...(ctx.cache && { cache: ctx.cache }),
+    operation: ctx.operation,
+    execution: ctx.execution,
+  };
+}
+
+/**
+ * Logs the success or failure of the operation with the duration of the
+ * inner middlewares and the handler. A failure is logged as the mapped
+ * operation exception even if the exception mapping middleware was removed.
+ */
+export const loggingMiddleware: OperationMiddleware = async (ctx, next) => {
+  if (!ctx.logger) {
+    return next();
+  }
+
+  const executionStartedAt = process.hrtime.bigint();
+
+  try {
+    const result = await next();
+
+    ctx.logger.logSuccess(
+      ctx.operation.constructor.name,
+      computeDurationInMs(executionStartedAt),
+      { ...getLogDetails(ctx), result },
+    );
+
+    return result;
+  } catch (error: unknown) {
+    ctx.logger.logFailure(
+      mapToOperationException(
+        error,
+        ctx.operation,
+        ctx.exceptionFactory,
+        ctx.errorMappings,
+      ),
+      computeDurationInMs(executionStartedAt),
+      getLogDetails(ctx),
+    );
+
+    throw error;
+  }
+};
@@ -0,0 +1,107 @@
+import {
+  composeOperationMiddlewares,
+  OperationMiddleware,
+  OperationMiddlewareContext,
+} from './operation.middleware';
+import { CommandFailedException } from '../exceptions';
+
+describe('(Unit) Operation middleware', () => {
+  describe('composeOperationMiddlewares()', () => {
+    class TestCommand {}
+
+    const createContext = (): OperationMiddlewareContext<TestCommand> => ({
+      operation: new TestCommand(),
+      metadata: {
+        type: 'TestCommand',
+        exceptionFactory: CommandFailedException,
+      },
+      exceptionFactory: CommandFailedException,
+      signal: new AbortController().signal,
+      execution: { operationId: '1', correlationId: '1', depth: 0 },
+      attempts: 0,
+      errorMappings: [],
+      state: {},
+    });
+
+    it('should call the middlewares in the order of registration', async () => {
+      // Arrange
+      const calls: string[] = [];
+      const createMiddleware =
+        (name: string): OperationMiddleware =>
+        async (_ctx, next) => {
+          calls.push(`${name}:before`);
+          const result = await next();
+          calls.push(`${name}:after`);
+          return result;
+        };
+      const pipeline = composeOperationMiddlewares(
+        [createMiddleware('first'), createMiddleware('second')],
+        async () => {
+          calls.push('handler');
+          return 42;
+        },
+      );
+      // Act
+      const result = await pipeline(createContext());
+      // Assert
+      expect(result).toBe(42);
+      expect(calls).toEqual([
+        'first:before',
+        'second:before',
+        'handler',
+        'second:after',
+        'first:after',
+      ]);
+    });
+
+    it('should allow a middleware to short-circuit the handler', async () => {
+      // Arrange
+      const handler = jest.fn();
+      const pipeline = composeOperationMiddlewares(
+        [async () => 'cached'],
+        handler,
+      );
+      // Act
+      const result = await pipeline(createContext());
+      // Assert
+      expect(result).toBe('cached');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should share the state between middlewares', async () => {
+      // Arrange
+      const pipeline = composeOperationMiddlewares(
+        [
+          async (ctx, next) => {
+            ctx.state.user = 'John';
+            return next();
+          },
+        ],
+        async (ctx) => ctx.state.user,
+      );
+      // Act
+      const result = await pipeline(createContext());
+      // Assert
+      expect(result).toBe('John');
+    });
+
+    it('should fail if next() is called multiple times', async () => {
+      // Arrange
+      const pipeline = composeOperationMiddlewares(
+        [
+          async (_ctx, next) => {
+            await next();
+            return next();
+          },
+        ],
+        async () => 42,
+      );
+      // Act
+      const act = () => pipeline(createContext());
+      // Assert
+      await expect(act).rejects.toThrow(
+        'Operation middleware called next() multiple times',
+      );
+    });
+  });
+});
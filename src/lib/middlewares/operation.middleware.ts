@@ -0,0 +1,100 @@
+import {
+  OperationFailedException,
+  OperationFailedExceptionFactory,
+} from '../exceptions';
+import { Operation } from '../decorators';
+import { OperationBuilderLogger } from '../services/operation-builder.service';
+import { OperationExecutionIds } from '../services/operation-execution-context.service';
+import { CqrsSpan } from '../tracing/cqrs.tracer';
+import { OperationErrorMapping } from './exception-mapping.middleware';
+
+/**
+ * The context shared by all middlewares of a single operation execution.
+ */
+export interface OperationMiddlewareContext<O extends object = any> {
+  /**
+   * The built and validated operation.
+   */
+  operation: O;
+  /**
+   * The metadata of the operation declared by the `@Command` or `@Query`
+   * decorator.
+   */
+  metadata: Operation.Metadata<OperationFailedExceptionFactory<O, any>>;
+  /**
+   * The static factory of the exception thrown by the operation.
+   */
+  exceptionFactory: OperationFailedExceptionFactory<O, any>;
+  /**
+   * Maps the errors raised by the handler into the operation exception. The
+   * mappings of the operation come before the global ones.
+   */
+  errorMappings: OperationErrorMapping[];
+  /**
+   * The logger of the operation factory. (Not set if logging is disabled.)
+   */
+  logger?: OperationBuilderLogger<O, OperationFailedException<O>>;
+  /**
+   * Aborted when the operation execution times out or is cancelled.
+   */
+  signal: AbortSignal;
+  /**
+   * The ids of the operation execution.
+   */
+  execution: OperationExecutionIds;
+  /**
+   * The tracing span of the execution. (Set only if a tracer is configured.)
+   */
+  span?: CqrsSpan;
+  /**
+   * The number of the handler execution attempts made so far.
+   */
+  attempts: number;
+  /**
+   * Whether the query result was served from the query cache. (Set only for
+   * queries with the `cache` option.)
+   */
+  cache?: 'hit' | 'miss';
+  /**
+   * A mutable bag to share custom state between middlewares.
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * A Koa-style middleware wrapping the execution of an operation. Middlewares
+ * may pre-process the operation and post-process the result of `next()`, or
+ * short-circuit the execution by not calling `next()` at all.
+ */
+export type OperationMiddleware<O extends object = any, R = any> = (
+  ctx: OperationMiddlewareContext<O>,
+  next: () => Promise<R>,
+) => Promise<R>;
+
+/**
+ * Composes the middlewares into a single function. The first middleware is
+ * the outermost one and the `handler` is called by the innermost `next()`.
+ */
+export function composeOperationMiddlewares<O extends object, R>(
+  middlewares: OperationMiddleware<O, R>[],
+  handler: (ctx: OperationMiddlewareContext<O>) => Promise<R>,
+): (ctx: OperationMiddlewareContext<O>) => Promise<R> {
+  return (ctx) => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<R> => {
+      if (index <= lastIndex) {
+        throw new Error('Operation middleware called next() multiple times');
+      }
+      lastIndex = index;
+
+      const middleware = middlewares[index];
+
+      return middleware
+        ? middleware(ctx, () => dispatch(index + 1))
+        : handler(ctx);
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,3 @@
+export * from './returns';
+export * from './result-validation';
+export * from './safe-result';
@@ -0,0 +1,83 @@
+import { IsString } from 'class-validator';
+import { Expose } from 'class-transformer';
+import { transformAndValidateResult } from './result-validation';
+
+describe('(Unit) transformAndValidateResult()', () => {
+  class UserResult {
+    @IsString()
+    public name!: string;
+  }
+
+  it('should transform a valid result into the result class', async () => {
+    // Act
+    const { value, errors } = await transformAndValidateResult(UserResult, {
+      name: 'John',
+    });
+    // Assert
+    expect(value).toBeInstanceOf(UserResult);
+    expect(errors).toEqual([]);
+  });
+
+  it('should report the failed constraints of an invalid result', async () => {
+    // Act
+    const { errors } = await transformAndValidateResult(UserResult, {
+      name: 42,
+    });
+    // Assert
+    expect(errors).toEqual([
+      expect.objectContaining({
+        property: 'name',
+        constraints: { isString: 'name must be a string' },
+      }),
+    ]);
+  });
+
+  it('should report the errors of array items under their indices', async () => {
+    // Act
+    const { value, errors } = await transformAndValidateResult(UserResult, [
+      { name: 'John' },
+      { name: 42 },
+    ]);
+    // Assert
+    expect(value).toEqual([expect.any(UserResult), expect.any(UserResult)]);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        property: '1',
+        children: [expect.objectContaining({ property: 'name' })],
+      }),
+    ]);
+  });
+
+  it('should report a result which is not an object', async () => {
+    // Act
+    const { value, errors } = await transformAndValidateResult(
+      UserResult,
+      null,
+    );
+    // Assert
+    expect(value).toBeNull();
+    expect(errors).toEqual([
+      expect.objectContaining({
+        property: 'result',
+        constraints: { isObject: 'result must be an object of UserResult' },
+      }),
+    ]);
+  });
+
+  it('should pass the transform options to the class-transformer', async () => {
+    // Arrange
+    class ExposedResult {
+      @Expose()
+      @IsString()
+      public name!: string;
+    }
+    // Act
+    const { value } = await transformAndValidateResult(
+      ExposedResult,
+      { name: 'John', password: 'secret' },
+      { excludeExtraneousValues: true },
+    );
+    // Assert
+    expect(value).toEqual({ name: 'John' });
+  });
+});
@@ -0,0 +1,100 @@
+import { ClassTransformOptions, plainToInstance } from 'class-transformer';
+import { validate, ValidationError, ValidatorOptions } from 'class-validator';
+import { Constructor } from 'type-fest';
+
+/**
+ * How an invalid handler result is treated. `strict` fails the execution
+ * with the `INVALID_RESULT` exception and `lenient` logs a warning and
+ * returns the result anyway.
+ */
+export type ResultValidationMode = 'strict' | 'lenient';
+
+export type ResultValidationOutcome<R> = {
+  /**
+   * The result transformed into instances of the result class.
+   */
+  value: R;
+  /**
+   * The failed constraints of the result. (Empty if the result is valid.)
+   */
+  errors: ValidationError[];
+};
+
+/**
+ * Transforms the handler result into an instance of the result class and
+ * validates it. The items of an array result are transformed and validated
+ * one by one, their errors are reported under the indices of the items.
+ */
+export async function transformAndValidateResult<R>(
+  resultCtor: Constructor<object>,
+  result: R,
+  transformOptions?: ClassTransformOptions,
+  validatorOptions?: ValidatorOptions,
+): Promise<ResultValidationOutcome<R>> {
+  if (!Array.isArray(result)) {
+    return transformAndValidateItem(
+      resultCtor,
+      result,
+      undefined,
+      transformOptions,
+      validatorOptions,
+    );
+  }
+
+  const outcomes = await Promise.all(
+    result.map((item, index) =>
+      transformAndValidateItem(
+        resultCtor,
+        item,
+        String(index),
+        transformOptions,
+        validatorOptions,
+      ),
+    ),
+  );
+
+  return {
+    value: outcomes.map(({ value }) => value) as R,
+    errors: outcomes.flatMap(({ errors }) => errors),
+  };
+}
+
+/**
+ * Validates a single result value. The errors of an array item are nested
+ * in an error of the item property.
+ */
+async function transformAndValidateItem<R>(
+  resultCtor: Constructor<object>,
+  item: R,
+  property: string | undefined,
+  transformOptions?: ClassTransformOptions,
+  validatorOptions?: ValidatorOptions,
+): Promise<ResultValidationOutcome<R>> {
+  if (typeof item !== 'object' || item === null) {
+    const error = createValidationError(property ?? 'result', item, []);
+    error.constraints = {
+      isObject: `${error.property} must be an object of ${resultCtor.name}`,
+    };
+
+    return { value: item, errors: [error] };
+  }
+
+  const value = plainToInstance(resultCtor, item, transformOptions);
+  const errors = await validate(value, validatorOptions);
+
+  return {
+    value: value as R,
+    errors:
+      property !== undefined && errors.length > 0
+        ? [createValidationError(property, value, errors)]
+        : errors,
+  };
+}
+
+function createValidationError(
+  property: string,
+  value: unknown,
+  children: ValidationError[],
+): ValidationError {
+  return Object.assign(new ValidationError(), { property, value, children });
+}
@@ -0,0 +1,105 @@
+import { CommandBus, QueryBus } from '@nestjs/cqrs';
+import { mock } from 'jest-mock-extended';
+import { Command, CommandHandler, Query, QueryHandler } from '../decorators';
+import {
+  CommandFactory,
+  CommandLogger,
+  QueryFactory,
+  QueryLogger,
+} from '../services';
+import { Returns } from './returns';
+
+describe('(Unit) Returns', () => {
+  it('should infer the result of the command', async () => {
+    // Arrange
+    @Command()
+    class CreateUser extends Returns<string> {
+      public email!: string;
+    }
+    const factory = new CommandFactory(
+      mock<CommandLogger>(),
+      mock<CommandBus>(),
+      { commandExecutor: { execute: async () => 'id' } },
+    );
+    // Act
+    const result = await factory.create(CreateUser).email('a@b.cz').execute();
+    // Assert
+    const id: string = result;
+    expect(id).toBe('id');
+  });
+
+  it('should infer the result of the query', async () => {
+    // Arrange
+    @Query()
+    class GetUserName extends Returns<string | undefined> {}
+    const factory = new QueryFactory(mock<QueryLogger>(), mock<QueryBus>(), {
+      queryExecutor: { execute: async () => 'John' },
+    });
+    // Act
+    const result = await factory.create(GetUserName).execute();
+    // Assert
+    // @ts-expect-error The result can be undefined.
+    const name: string = result;
+    expect(name).toBe('John');
+  });
+
+  it('should not add any property to the operation', async () => {
+    // Arrange
+    @Command()
+    class CreateUser extends Returns<string> {
+      public email = 'a@b.cz';
+    }
+    // Act
+    const command = new CreateUser();
+    // Assert
+    expect(Reflect.ownKeys(command)).toEqual(['email']);
+  });
+
+  it('should accept a handler returning the declared result', () => {
+    // Arrange
+    @Command()
+    class CreateUser extends Returns<string> {}
+    // Act
+    @CommandHandler(CreateUser)
+    class CreateUserHandler {
+      public async execute(): Promise<string> {
+        return 'id';
+      }
+    }
+    // Assert
+    expect(CommandHandler.metadata.get(CreateUserHandler)?.operationCtor).toBe(
+      CreateUser,
+    );
+  });
+
+  it('should reject a handler returning another result at compile time', () => {
+    // Arrange
+    @Query()
+    class GetUserName extends Returns<string> {}
+    // Act
+    // @ts-expect-error The handler has to return a string.
+    @QueryHandler(GetUserName)
+    class GetUserNameHandler {
+      public async execute(): Promise<number> {
+        return 42;
+      }
+    }
+    // Assert
+    expect(QueryHandler.metadata.get(GetUserNameHandler)?.operationCtor).toBe(
+      GetUserName,
+    );
+  });
+
+  it('should accept any handler of an operation without a declared result', () => {
+    // Arrange
+    @Query()
+    class GetUserName {}
+    // Act
+    @QueryHandler(GetUserName)
+    class GetUserNameHandler {}
+    // Assert
+    expect(QueryHandler.metadata.get(GetUserNameHandler)?.operationCtor).toBe(
+      GetUserName,
+    );
+  });
+});
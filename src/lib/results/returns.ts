@@ -0,0 +1,50 @@
+import { OperationFailedExceptionFactory } from '../exceptions';
+
+// The symbols exist only in the type system, so the marker adds nothing to
+// the operation instances and their plain state.
+declare const RESULT_TYPE: unique symbol;
+declare const EXCEPTION_TYPE: unique symbol;
+
+/**
+ * A base class of operations declaring the result type of their handlers
+ * and optionally the exception class given to the `throws` decorator option.
+ * The factories infer the result of `execute()` and the error of
+ * `executeSafe()` from it and the handler decorators check the result of the
+ * handlers against it.
+ *
+ * ```ts
+ * @Command({ throws: CreateUserException })
+ * export class CreateUser extends Returns<string, typeof CreateUserException> {}
+ * ```
+ */
+export abstract class Returns<
+  R,
+  E extends OperationFailedExceptionFactory<any, any> = never,
+> {
+  declare readonly [RESULT_TYPE]: R;
+
+  declare readonly [EXCEPTION_TYPE]: E;
+}
+
+/**
+ * The result type declared by the `Returns` base of the operation, or
+ * `unknown` if the operation does not declare it.
+ */
+export type ResultOf<O> = O extends { readonly [RESULT_TYPE]: infer R }
+  ? R
+  : unknown;
+
+/**
+ * The exception class declared by the `Returns` base of the operation, or
+ * the given default if the operation does not declare it.
+ */
+export type ExceptionFactoryOf<
+  O,
+  D extends OperationFailedExceptionFactory<any, any>,
+> = O extends { readonly [EXCEPTION_TYPE]: infer E }
+  ? [E] extends [never]
+    ? D
+    : E extends OperationFailedExceptionFactory<any, any>
+      ? E
+      : D
+  : D;
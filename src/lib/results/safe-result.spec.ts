@@ -0,0 +1,166 @@
+import { CommandBus, QueryBus } from '@nestjs/cqrs';
+import { mock } from 'jest-mock-extended';
+import { MaxLength } from 'class-validator';
+import { Command, Query } from '../decorators';
+import { CommandFailedException, QueryFailedException } from '../exceptions';
+import {
+  CommandFactory,
+  CommandLogger,
+  QueryFactory,
+  QueryLogger,
+} from '../services';
+import { Returns } from './returns';
+import { ErrorCodeOf } from './safe-result';
+
+describe('(Unit) Safe results', () => {
+  class CreateUserException extends CommandFailedException {
+    public static errorCodes = {
+      ...CommandFailedException.errorCodes,
+      USER_ALREADY_EXISTS: 'USER_ALREADY_EXISTS',
+    } as const;
+  }
+
+  @Command({ throws: CreateUserException })
+  class CreateUser extends Returns<string, typeof CreateUserException> {
+    @MaxLength(5)
+    public name!: string;
+  }
+
+  function createCommandFactory(execute: () => Promise<unknown>) {
+    return new CommandFactory(mock<CommandLogger>(), mock<CommandBus>(), {
+      logger: false,
+      commandExecutor: { execute },
+    });
+  }
+
+  describe('#executeSafe()', () => {
+    it('should resolve the result of a successful execution', async () => {
+      // Arrange
+      const factory = createCommandFactory(async () => 'id');
+      // Act
+      const result = await factory
+        .create(CreateUser)
+        .name('John')
+        .executeSafe();
+      // Assert
+      expect(result).toEqual({ ok: true, value: 'id' });
+    });
+
+    it('should resolve the exception of a failed execution', async () => {
+      // Arrange
+      const exception = new CreateUserException(
+        CreateUserException.errorCodes.USER_ALREADY_EXISTS,
+        new CreateUser(),
+        'User already exists',
+      );
+      const factory = createCommandFactory(() => Promise.reject(exception));
+      // Act
+      const result = await factory
+        .create(CreateUser)
+        .name('John')
+        .executeSafe();
+      // Assert
+      expect(result).toEqual({ ok: false, error: exception });
+    });
+
+    it('should narrow the error to the declared exception and codes', async () => {
+      // Arrange
+      const factory = createCommandFactory(async () => {
+        throw new Error('Connection lost');
+      });
+      // Act
+      const result = await factory
+        .create(CreateUser)
+        .name('John')
+        .executeSafe();
+      // Assert
+      const classify = (code: ErrorCodeOf<typeof CreateUserException>) => {
+        switch (code) {
+          case 'USER_ALREADY_EXISTS':
+          case 'INVALID_COMMAND':
+          case 'INVALID_RESULT':
+            return 'invalid';
+          case 'HANDLER_NOT_FOUND':
+          case 'INTERNAL_HANDLER_ERROR':
+          case 'DUPLICATE_IN_PROGRESS':
+          case 'TIMEOUT':
+          case 'CANCELLED':
+            return 'unavailable';
+          default: {
+            const unreachable: never = code;
+            return unreachable;
+          }
+        }
+      };
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        const error: CreateUserException = result.error;
+        expect(error).toBeInstanceOf(CreateUserException);
+        expect(classify(result.error.code)).toBe('unavailable');
+      }
+    });
+
+    it('should default the error to the exception of the operation kind', async () => {
+      // Arrange
+      @Query()
+      class GetUser {}
+      const factory = new QueryFactory(mock<QueryLogger>(), mock<QueryBus>(), {
+        logger: false,
+        queryExecutor: {
+          execute: () => Promise.reject(new Error('Connection lost')),
+        },
+      });
+      // Act
+      const result = await factory.create(GetUser).executeSafe();
+      // Assert
+      expect(result).toEqual({
+        ok: false,
+        error: expect.any(QueryFailedException),
+      });
+      if (!result.ok) {
+        // @ts-expect-error A query does not fail with a command code.
+        const code: 'DUPLICATE_IN_PROGRESS' = result.error.code;
+        expect(code).toBe('INTERNAL_HANDLER_ERROR');
+      }
+    });
+
+    it('should rethrow an exception of another operation', async () => {
+      // Arrange
+      @Query()
+      class GetUser {}
+      const exception = QueryFailedException.Timeout(new GetUser(), 100);
+      const factory = createCommandFactory(() => Promise.reject(exception));
+      // Act
+      const act = factory.create(CreateUser).name('John').executeSafe();
+      // Assert
+      await expect(act).rejects.toBe(exception);
+    });
+  });
+
+  describe('#buildSafe()', () => {
+    it('should resolve the valid operation', async () => {
+      // Arrange
+      const factory = createCommandFactory(async () => 'id');
+      // Act
+      const result = await factory.create(CreateUser).name('John').buildSafe();
+      // Assert
+      expect(result).toEqual({ ok: true, value: expect.any(CreateUser) });
+    });
+
+    it('should resolve the validation failure', async () => {
+      // Arrange
+      const factory = createCommandFactory(async () => 'id');
+      // Act
+      const result = await factory
+        .create(CreateUser)
+        .name('John Doe')
+        .buildSafe();
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        const code: 'INVALID_COMMAND' = result.error.code;
+        expect(code).toBe('INVALID_COMMAND');
+      }
+    });
+  });
+});
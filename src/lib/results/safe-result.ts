@@ -0,0 +1,29 @@
+import { OperationFailedExceptionFactory } from '../exceptions';
+
+/**
+ * The union of the error codes declared by the exception class. The codes
+ * are string literals only if the `errorCodes` are declared `as const`.
+ */
+export type ErrorCodeOf<E extends OperationFailedExceptionFactory<any, any>> =
+  Extract<E['errorCodes'][keyof E['errorCodes']], string>;
+
+/**
+ * An instance of the exception class with the code narrowed to the given
+ * error codes. (Default: all codes declared by the exception class)
+ */
+export type OperationError<
+  E extends OperationFailedExceptionFactory<any, any>,
+  C extends string = ErrorCodeOf<E>,
+> = InstanceType<E> & { readonly code: C };
+
+/**
+ * The outcome of `executeSafe()` and `buildSafe()`. A failure is resolved
+ * as the exception of the operation instead of being thrown.
+ */
+export type SafeResult<
+  T,
+  E extends OperationFailedExceptionFactory<any, any>,
+  C extends string = ErrorCodeOf<E>,
+> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly error: OperationError<E, C> };
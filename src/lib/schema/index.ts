@@ -0,0 +1 @@
+export * from './operation-json-schema';
@@ -0,0 +1,386 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  Equals,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsDivisibleBy,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNegative,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Length,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Command, Query } from '../decorators';
+import {
+  JSON_SCHEMA_DIALECT,
+  toJsonSchema,
+  toJsonSchemaBundle,
+} from './operation-json-schema';
+
+enum Role {
+  Admin = 'admin',
+  User = 'user',
+}
+
+enum Priority {
+  Low,
+  High,
+}
+
+class Address {
+  @IsString()
+  public street!: string;
+
+  @IsOptional()
+  @IsString()
+  public city?: string;
+}
+
+describe('(Unit) toJsonSchema()', () => {
+  it('should describe the operation', () => {
+    // Arrange
+    @Command({ description: 'Creates a user' })
+    class CreateUser {
+      @IsEmail()
+      public email!: string;
+    }
+    // Act
+    const schema = toJsonSchema(CreateUser);
+    // Assert
+    expect(schema).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      title: 'CreateUser',
+      description: 'Creates a user',
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' } },
+      required: ['email'],
+    });
+  });
+
+  it('should leave the optional properties out of the required ones', () => {
+    // Arrange
+    @Query()
+    class ListUsers {
+      @IsOptional()
+      @IsString()
+      public search?: string;
+    }
+    // Act
+    const schema = toJsonSchema(ListUsers);
+    // Assert
+    expect(schema.required).toBeUndefined();
+  });
+
+  it('should keep the conditionally validated properties required', () => {
+    // Arrange
+    @Command()
+    class InviteUser {
+      @IsBoolean()
+      public byEmail!: boolean;
+
+      @ValidateIf((operation: InviteUser) => operation.byEmail)
+      @IsEmail()
+      public email!: string;
+
+      @IsOptional()
+      @IsString()
+      public message?: string;
+
+      @ValidateIf(() => {
+        throw new Error('Not evaluated');
+      })
+      @IsString()
+      public phone!: string;
+    }
+    // Act
+    const schema = toJsonSchema(InviteUser);
+    // Assert
+    expect(schema.required).toEqual(['byEmail', 'email', 'phone']);
+  });
+
+  it('should convert the numeric and string limits', () => {
+    // Arrange
+    @Query()
+    class ListUsers {
+      @IsInt()
+      @Min(1)
+      @Max(100)
+      public limit!: number;
+
+      @IsString()
+      @MaxLength(50)
+      public search!: string;
+    }
+    // Act
+    const schema = toJsonSchema(ListUsers);
+    // Assert
+    expect(schema.properties).toEqual({
+      limit: { type: 'integer', minimum: 1, maximum: 100 },
+      search: { type: 'string', maxLength: 50 },
+    });
+  });
+
+  it('should convert the enums', () => {
+    // Arrange
+    @Command()
+    class UpdateUser {
+      @IsEnum(Role)
+      public role!: Role;
+
+      @IsEnum(Priority)
+      public priority!: Priority;
+    }
+    // Act
+    const schema = toJsonSchema(UpdateUser);
+    // Assert
+    expect(schema.properties).toEqual({
+      role: { enum: ['admin', 'user'] },
+      priority: { enum: [0, 1] },
+    });
+  });
+
+  it('should convert the formats and constraints', () => {
+    // Arrange
+    @Command()
+    class UpdateProfile {
+      @IsNumber()
+      @IsPositive()
+      @IsDivisibleBy(5)
+      public height!: number;
+
+      @IsNegative()
+      public balance!: number;
+
+      @IsDateString()
+      public birthday!: string;
+
+      @IsUrl()
+      public website!: string;
+
+      @IsUUID()
+      public avatarId!: string;
+
+      @IsIn(['light', 'dark'])
+      public theme!: string;
+
+      @Equals(true)
+      public consent!: boolean;
+
+      @Matches(/^\+\d+$/)
+      public phone!: string;
+
+      @MinLength(2)
+      @Length(2, 20)
+      public nickname!: string;
+
+      @Length(4)
+      public pin!: string;
+
+      @IsObject()
+      public settings!: object;
+    }
+    // Act
+    const schema = toJsonSchema(UpdateProfile);
+    // Assert
+    expect(schema.properties).toEqual({
+      height: { type: 'number', exclusiveMinimum: 0, multipleOf: 5 },
+      balance: { type: 'number', exclusiveMaximum: 0 },
+      birthday: { type: 'string', format: 'date-time' },
+      website: { type: 'string', format: 'uri' },
+      avatarId: { type: 'string', format: 'uuid' },
+      theme: { enum: ['light', 'dark'] },
+      consent: { const: true, type: 'boolean' },
+      phone: { type: 'string', pattern: '^\\+\\d+$' },
+      nickname: { type: 'string', minLength: 2, maxLength: 20 },
+      pin: { type: 'string', minLength: 4 },
+      settings: { type: 'object' },
+    });
+  });
+
+  it('should fall back to the design types', () => {
+    // Arrange
+    @Query()
+    class FindUsers {
+      @IsOptional()
+      public active?: boolean;
+
+      @IsOptional()
+      public age?: number;
+
+      @IsOptional()
+      public name?: string;
+
+      @IsOptional()
+      public since?: Date;
+    }
+    // Act
+    const schema = toJsonSchema(FindUsers);
+    // Assert
+    expect(schema.properties).toEqual({
+      active: { type: 'boolean' },
+      age: { type: 'number' },
+      name: { type: 'string' },
+      since: { type: 'string', format: 'date-time' },
+    });
+  });
+
+  it('should convert the arrays', () => {
+    // Arrange
+    @Command()
+    class TagUser {
+      @IsString({ each: true })
+      public tags!: string[];
+    }
+    // Act
+    const schema = toJsonSchema(TagUser);
+    // Assert
+    expect(schema.properties?.tags).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+    });
+  });
+
+  it('should convert the array limits', () => {
+    // Arrange
+    @Command()
+    class TagUser {
+      @IsArray()
+      @ArrayNotEmpty()
+      @ArrayUnique()
+      public tags!: string[];
+
+      @ArrayMinSize(1)
+      @ArrayMaxSize(3)
+      public roles!: string[];
+    }
+    // Act
+    const schema = toJsonSchema(TagUser);
+    // Assert
+    expect(schema.properties).toEqual({
+      tags: { type: 'array', minItems: 1, uniqueItems: true },
+      roles: { type: 'array', minItems: 1, maxItems: 3 },
+    });
+  });
+
+  it('should reference the nested objects from the definitions', () => {
+    // Arrange
+    @Command()
+    class MoveUser {
+      @ValidateNested()
+      @Type(() => Address)
+      public address!: Address;
+
+      @ValidateNested({ each: true })
+      @Type(() => Address)
+      public previousAddresses!: Address[];
+    }
+    // Act
+    const schema = toJsonSchema(MoveUser);
+    // Assert
+    expect(schema.properties).toEqual({
+      address: { $ref: '#/$defs/Address' },
+      previousAddresses: {
+        type: 'array',
+        items: { $ref: '#/$defs/Address' },
+      },
+    });
+    expect(schema.$defs?.Address).toEqual({
+      title: 'Address',
+      type: 'object',
+      properties: {
+        street: { type: 'string' },
+        city: { type: 'string' },
+      },
+      required: ['street'],
+    });
+  });
+
+  it('should reference the nested objects of the design types', () => {
+    // Arrange
+    @Command()
+    class RelocateUser {
+      @ValidateNested()
+      public address!: Address;
+
+      @ValidateNested()
+      public metadata!: object;
+    }
+    // Act
+    const schema = toJsonSchema(RelocateUser);
+    // Assert
+    expect(schema.properties).toEqual({
+      address: { $ref: '#/$defs/Address' },
+      metadata: { type: 'object' },
+    });
+  });
+
+  it('should reference the recursive types', () => {
+    // Arrange
+    class Category {
+      @IsString()
+      public name!: string;
+
+      @IsOptional()
+      @ValidateNested({ each: true })
+      @Type(() => Category)
+      public children?: Category[];
+    }
+    @Command()
+    class ImportCategory {
+      @ValidateNested()
+      @Type(() => Category)
+      public category!: Category;
+    }
+    // Act
+    const schema = toJsonSchema(ImportCategory);
+    // Assert
+    expect(schema.$defs?.Category.properties?.children).toEqual({
+      type: 'array',
+      items: { $ref: '#/$defs/Category' },
+    });
+  });
+});
+
+describe('(Unit) toJsonSchemaBundle()', () => {
+  it('should define each operation in the definitions', () => {
+    // Arrange
+    @Command()
+    class CreateOrder {
+      @IsString()
+      public id!: string;
+    }
+    @Query()
+    class GetOrder {
+      @IsString()
+      public id!: string;
+    }
+    // Act
+    const schema = toJsonSchemaBundle([CreateOrder, GetOrder]);
+    // Assert
+    expect(schema.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(Object.keys(schema.$defs ?? {})).toEqual([
+      'CreateOrder',
+      'GetOrder',
+    ]);
+  });
+});
@@ -0,0 +1,354 @@
+import { Constructor } from 'type-fest';
+import { plainToInstance } from 'class-transformer';
+import { ValidationTypes, getMetadataStorage } from 'class-validator';
+import type { ValidationMetadata } from 'class-validator/types/metadata/ValidationMetadata';
+import { Command, Query } from '../decorators';
+
+export const JSON_SCHEMA_DIALECT =
+  'https://json-schema.org/draft/2020-12/schema';
+
+export type JsonSchema = {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+/**
+ * Converts the class-validator constraints of an operation into a JSON Schema
+ * (draft 2020-12). Nested classes are referenced from the `$defs`.
+ */
+export function toJsonSchema(operationCtor: Constructor<object>): JsonSchema {
+  const defs: Record<string, JsonSchema> = {};
+  const schema = buildOperationSchema(operationCtor, defs);
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...schema,
+    ...(Object.keys(defs).length > 0 && { $defs: defs }),
+  };
+}
+
+/**
+ * Converts the operations into a single JSON Schema document with a
+ * definition of each operation in its `$defs`.
+ */
+export function toJsonSchemaBundle(
+  operationCtors: Iterable<Constructor<object>>,
+): JsonSchema {
+  const defs: Record<string, JsonSchema> = {};
+
+  for (const operationCtor of operationCtors) {
+    defs[operationCtor.name] = buildOperationSchema(operationCtor, defs);
+  }
+
+  return { $schema: JSON_SCHEMA_DIALECT, $defs: defs };
+}
+
+function buildOperationSchema(
+  operationCtor: Constructor<object>,
+  defs: Record<string, JsonSchema>,
+): JsonSchema {
+  const metadata =
+    Command.metadata.get(operationCtor) ?? Query.metadata.get(operationCtor);
+
+  return {
+    title: metadata?.type ?? operationCtor.name,
+    ...(metadata?.description && { description: metadata.description }),
+    ...buildObjectSchema(operationCtor, defs),
+  };
+}
+
+function buildObjectSchema(
+  ctor: Constructor<object>,
+  defs: Record<string, JsonSchema>,
+): JsonSchema {
+  const validationMetadatas = getMetadataStorage().getTargetValidationMetadatas(
+    ctor,
+    '',
+    true,
+    false,
+  );
+  const metadatasByProperty =
+    getMetadataStorage().groupByPropertyName(validationMetadatas);
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [propertyName, metadatas] of Object.entries(metadatasByProperty)) {
+    properties[propertyName] = buildPropertySchema(
+      ctor,
+      propertyName,
+      metadatas,
+      defs,
+    );
+
+    const isOptional = metadatas.some(isOptionalCondition);
+
+    if (!isOptional) {
+      required.push(propertyName);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * Whether the conditional validation skips only the missing values as the
+ * `@IsOptional()` does. Other `@ValidateIf()` conditions do not make the
+ * property optional. (The class-validator does not name the metadata of the
+ * `@IsOptional()`, so its condition is probed.)
+ */
+function isOptionalCondition(metadata: ValidationMetadata): boolean {
+  const [condition] = metadata.constraints ?? [];
+
+  if (
+    metadata.type !== ValidationTypes.CONDITIONAL_VALIDATION ||
+    typeof condition !== 'function'
+  ) {
+    return false;
+  }
+
+  try {
+    return [undefined, null, 0, '', false].every(
+      (value) =>
+        condition({ [metadata.propertyName]: value }, value) ===
+        (value !== undefined && value !== null),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function buildPropertySchema(
+  ctor: Constructor<object>,
+  propertyName: string,
+  metadatas: ValidationMetadata[],
+  defs: Record<string, JsonSchema>,
+): JsonSchema {
+  const schema: JsonSchema = {};
+  const items: JsonSchema = {};
+  const designType = Reflect.getMetadata(
+    'design:type',
+    ctor.prototype,
+    propertyName,
+  );
+
+  for (const metadata of metadatas) {
+    // Constraints validating each item of an array describe the items.
+    const target = metadata.each ? items : schema;
+
+    if (metadata.type === ValidationTypes.NESTED_VALIDATION) {
+      const nestedCtor = getNestedType(ctor, propertyName, designType);
+
+      if (nestedCtor) {
+        target.$ref = `#/$defs/${defineNestedSchema(nestedCtor, defs)}`;
+      } else {
+        target.type = 'object';
+      }
+    } else if (metadata.type === ValidationTypes.CUSTOM_VALIDATION) {
+      applyConstraint(target, metadata);
+    }
+  }
+
+  if (designType === Array || Object.keys(items).length > 0) {
+    schema.type = 'array';
+
+    if (Object.keys(items).length > 0) {
+      schema.items = items;
+    }
+  }
+
+  if (!schema.type && !schema.$ref && !('enum' in schema)) {
+    applyDesignType(schema, designType);
+  }
+
+  return schema;
+}
+
+function applyConstraint(
+  schema: JsonSchema,
+  metadata: ValidationMetadata,
+): void {
+  const [first, second] = metadata.constraints ?? [];
+
+  switch (metadata.name) {
+    case 'isString':
+      schema.type = 'string';
+      break;
+    case 'isNumber':
+      schema.type = 'number';
+      break;
+    case 'isInt':
+      schema.type = 'integer';
+      break;
+    case 'isBoolean':
+      schema.type = 'boolean';
+      break;
+    case 'isArray':
+      schema.type = 'array';
+      break;
+    case 'isObject':
+      schema.type = 'object';
+      break;
+    case 'isDate':
+    case 'isDateString':
+    case 'isIso8601':
+      schema.type = 'string';
+      schema.format = 'date-time';
+      break;
+    case 'isEmail':
+      schema.type = 'string';
+      schema.format = 'email';
+      break;
+    case 'isUrl':
+      schema.type = 'string';
+      schema.format = 'uri';
+      break;
+    case 'isUuid':
+      schema.type = 'string';
+      schema.format = 'uuid';
+      break;
+    case 'isEnum':
+      schema.enum = getEnumValues(first);
+      break;
+    case 'isIn':
+      schema.enum = [...first];
+      break;
+    case 'equals':
+      schema.const = first;
+      break;
+    case 'matches':
+      schema.type = 'string';
+      schema.pattern = first instanceof RegExp ? first.source : String(first);
+      break;
+    case 'min':
+      schema.minimum = first;
+      break;
+    case 'max':
+      schema.maximum = first;
+      break;
+    case 'isPositive':
+      schema.exclusiveMinimum = 0;
+      break;
+    case 'isNegative':
+      schema.exclusiveMaximum = 0;
+      break;
+    case 'isDivisibleBy':
+      schema.multipleOf = first;
+      break;
+    case 'minLength':
+      schema.minLength = first;
+      break;
+    case 'maxLength':
+      schema.maxLength = first;
+      break;
+    case 'isLength':
+      schema.minLength = first;
+
+      if (second !== undefined) {
+        schema.maxLength = second;
+      }
+      break;
+    case 'arrayNotEmpty':
+      schema.minItems = 1;
+      break;
+    case 'arrayMinSize':
+      schema.minItems = first;
+      break;
+    case 'arrayMaxSize':
+      schema.maxItems = first;
+      break;
+    case 'arrayUnique':
+      schema.uniqueItems = true;
+      break;
+  }
+}
+
+function applyDesignType(schema: JsonSchema, designType: unknown): void {
+  if (designType === String) {
+    schema.type = 'string';
+  } else if (designType === Number) {
+    schema.type = 'number';
+  } else if (designType === Boolean) {
+    schema.type = 'boolean';
+  } else if (designType === Date) {
+    schema.type = 'string';
+    schema.format = 'date-time';
+  }
+}
+
+function getEnumValues(entity: Record<string, unknown>): unknown[] {
+  // Numeric enums contain also the reverse mapping from values to names.
+  return Object.keys(entity)
+    .filter((key) => Number.isNaN(Number(key)))
+    .map((key) => entity[key]);
+}
+
+function getNestedType(
+  ctor: Constructor<object>,
+  propertyName: string,
+  designType: unknown,
+): Constructor<object> | undefined {
+  // The class-transformer does not expose the `@Type()` metadata, so an empty
+  // value is transformed to find out the class it turns into.
+  const instance = plainToInstance(ctor, {
+    [propertyName]: designType === Array ? [{}] : {},
+  });
+  const value: unknown = Reflect.get(instance, propertyName);
+  const nested: unknown = Array.isArray(value) ? value[0] : value;
+
+  if (
+    typeof nested === 'object' &&
+    nested !== null &&
+    nested.constructor !== Object
+  ) {
+    return nested.constructor as Constructor<object>;
+  }
+
+  return typeof designType === 'function' &&
+    designType !== Array &&
+    designType !== Object
+    ? (designType as Constructor<object>)
+    : undefined;
+}
+
+function defineNestedSchema(
+  nestedCtor: Constructor<object>,
+  defs: Record<string, JsonSchema>,
+): string {
+  const name = nestedCtor.name;
+
+  if (!defs[name]) {
+    // Registered before it is built, so recursive types end up with a $ref.
+    defs[name] = {};
+    defs[name] = {
+      title: name,
+      ...buildObjectSchema(nestedCtor, defs),
+    };
+  }
+
+  return name;
+}
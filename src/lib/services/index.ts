@@ -1,3 +1,5 @@
 export * from './operation-factory.service';
 export * from './operation-builder.service';
 export * from './operation-logger.service';
+export * from './operation-execution-context.service';
+export * from './operation-registry.service';
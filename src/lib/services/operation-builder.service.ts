@@ -1,27 +1,107 @@
 import { Constructor } from 'type-fest';
-import { instanceToPlain, plainToInstance } from 'class-transformer';
-import { validate } from 'class-validator';
+import {
+  ClassTransformOptions,
+  instanceToPlain,
+  plainToInstance,
+} from 'class-transformer';
+import { validate, ValidatorOptions } from 'class-validator';
 import {
   OperationFailedException,
   OperationFailedExceptionFactory,
 } from '../exceptions';
-import { Command, Query } from '../decorators';
+import { Command, Operation, Query } from '../decorators';
+import {
+  composeOperationMiddlewares,
+  mapToOperationException,
+  OperationErrorMapping,
+  OperationMiddleware,
+  OperationMiddlewareContext,
+} from '../middlewares';
+import { IdempotencyStore } from '../idempotency';
+import { QueryCache } from '../cache';
+import { CqrsSpan, CqrsSpanAttributes, CqrsTracer } from '../tracing';
+import {
+  ResultValidationMode,
+  transformAndValidateResult,
+} from '../results/result-validation';
 import {
-  CommandHandlerNotFoundException,
-  QueryHandlerNotFoundException,
-} from '@nestjs/cqrs';
+  ErrorCodeOf,
+  OperationError,
+  SafeResult,
+} from '../results/safe-result';
+import {
+  OperationExecutionContext,
+  OperationExecutionIds,
+} from './operation-execution-context.service';
+import {
+  computeRetryDelay,
+  shouldRetryOperation,
+  waitForRetry,
+} from './operation-retry';
 
 export type OperationExecutor<C extends object, R> = {
   execute(query: C): Promise<R>;
+  /**
+   * Called with every operation built for the executor, before it is
+   * validated. (Also for the invalid and the never executed operations.)
+   */
+  onBuilt?(operation: C): void;
 };
 
+/**
+ * Additional details of the operation execution passed to the logger.
+ */
+export interface OperationLogDetails {
+  /**
+   * The number of the handler execution attempts.
+   */
+  attempts?: number;
+  /**
+   * Whether a cached query result was served.
+   */
+  cache?: 'hit' | 'miss';
+  /**
+   * The executed operation instance.
+   */
+  operation?: object;
+  /**
+   * The result of a successful execution.
+   */
+  result?: unknown;
+  /**
+   * The ids of the operation execution.
+   */
+  execution?: OperationExecutionIds;
+}
+
 export interface OperationBuilderLogger<
   O extends object,
   E extends OperationFailedException<O, any>,
 > {
-  logFailure(exception: OperationFailedException<O, E>, duration: number): void;
+  logFailure(
+    exception: OperationFailedException<O, E>,
+    duration: number,
+    details?: OperationLogDetails,
+  ): void;
+
+  logSuccess(
+    operationType: string,
+    duration: number,
+    details?: OperationLogDetails,
+  ): void;
+
+  /**
+   * Logs an invalid result accepted in the lenient result validation mode.
+   * (Such results are not logged by a logger without the method.)
+   */
+  logInvalidResult?(
+    exception: OperationFailedException<O>,
+    details?: OperationLogDetails,
+  ): void;
+}
 
-  logSuccess(operationType: string, duration: number): void;
+export interface OperationBuilderMetrics {
+  record(kind: string, name: string, outcome: string, duration: number): void;
 }
 
 export class OperationBuilderBase<
@@ -29,6 +109,20 @@ export class OperationBuilderBase<
   R,
   E extends OperationFailedExceptionFactory<O, any>,
 > {
+  /**
+   * The methods called as the steps of the builder proxy. The other methods
+   * configure the builder for the factory and are not exposed, so the
+   * operation fields of the same names stay settable.
+   */
+  public static readonly steps: readonly string[] = [
+    'build',
+    'buildSafe',
+    'clear',
+    'execute',
+    'executeSafe',
+    'withCorrelationId',
+  ];
+
   private initState: Record<string, unknown> = {};
 
   private currState: Record<string, unknown> = {};
@@ -41,6 +135,32 @@ export class OperationBuilderBase<
 
   private exceptionFactory?: E;
 
+  private metrics?: OperationBuilderMetrics;
+
+  private tracer?: CqrsTracer;
+
+  private metadata?: Operation.Metadata<E>;
+
+  private middlewares: OperationMiddleware<O, R>[] = [];
+
+  private errorMappings: OperationErrorMapping[] = [];
+
+  private timeout?: number;
+
+  private signal?: AbortSignal;
+
+  private incomingCorrelationId?: string;
+
+  private validatorOptions?: ValidatorOptions;
+
+  private resultValidatorOptions?: ValidatorOptions;
+
+  private resultTransformOptions?: ClassTransformOptions;
+
+  private transformOptions?: ClassTransformOptions;
+
+  private resultValidation?: ResultValidationMode;
+
   constructor(queryCtor: Constructor<O>) {
     this.ctor = queryCtor;
     // Load query defaults to the plain state
@@ -60,6 +180,48 @@ export class OperationBuilderBase<
     return self;
   }
 
+  public setMetadata(metadata: Operation.Metadata<any>): this {
+    this.metadata = metadata;
+    return this;
+  }
+
+  public setMiddlewares(middlewares: OperationMiddleware<O, R>[]): this {
+    this.middlewares = middlewares;
+    return this;
+  }
+
+  public setErrorMappings(errorMappings: OperationErrorMapping[]): this {
+    this.errorMappings = errorMappings;
+    return this;
+  }
+
+  /**
+   * Sets the time in milliseconds after which the execution is aborted and
+   * rejected with the `TIMEOUT` exception.
+   */
+  public setExecutionTimeout(timeout?: number): this {
+    this.timeout = timeout;
+    return this;
+  }
+
+  /**
+   * Sets an external signal cancelling the execution. When aborted, the
+   * execution rejects with the `CANCELLED` exception.
+   */
+  public setSignal(signal?: AbortSignal): this {
+    this.signal = signal;
+    return this;
+  }
+
+  /**
+   * Sets the correlation id of the execution. Overrides the id inherited
+   * from the parent operation or the incoming correlation id.
+   */
+  public withCorrelationId(correlationId: string): this {
+    this.incomingCorrelationId = correlationId;
+    return this;
+  }
+
   public setExecutor(executor: OperationExecutor<O, R>): this {
     this.executor = executor;
     return this;
@@ -72,6 +234,49 @@ export class OperationBuilderBase<
     return this;
   }
 
+  public setMetrics(metrics?: OperationBuilderMetrics): this {
+    this.metrics = metrics;
+    return this;
+  }
+
+  public setTracer(tracer?: CqrsTracer): this {
+    this.tracer = tracer;
+    return this;
+  }
+
+  public setValidatorOptions(validatorOptions?: ValidatorOptions): this {
+    this.validatorOptions = validatorOptions;
+    return this;
+  }
+
+  public setResultValidatorOptions(
+    resultValidatorOptions?: ValidatorOptions,
+  ): this {
+    this.resultValidatorOptions = resultValidatorOptions;
+    return this;
+  }
+
+  public setResultTransformOptions(
+    resultTransformOptions?: ClassTransformOptions,
+  ): this {
+    this.resultTransformOptions = resultTransformOptions;
+    return this;
+  }
+
+  public setTransformOptions(transformOptions?: ClassTransformOptions): this {
+    this.transformOptions = transformOptions;
+    return this;
+  }
+
+  /**
+   * Sets how an invalid result of an operation with the `returns` option is
+   * treated. (Default: `strict`)
+   */
+  public setResultValidation(resultValidation?: ResultValidationMode): this {
+    this.resultValidation = resultValidation;
+    return this;
+  }
+
   public clear(): this {
     for (const key of Object.keys(this.initState)) {
       if (typeof key === 'string') {
@@ -92,11 +297,22 @@ export class OperationBuilderBase<
   }
 
   public async build(): Promise<O> {
+    return this.validate(this.transform());
+  }
+
+  private transform(): O {
     const operation = plainToInstance(this.ctor, this.currState, {
       exposeDefaultValues: true,
+      ...this.transformOptions,
     });
 
-    const validationErrors = await validate(operation);
+    this.executor?.onBuilt?.(operation);
+
+    return operation;
+  }
+
+  private async validate(operation: O): Promise<O> {
+    const validationErrors = await validate(operation, this.validatorOptions);
 
     /* istanbul ignore next */
     if (!this.exceptionFactory) {
@@ -110,6 +326,23 @@ export class OperationBuilderBase<
     return operation;
   }
 
+  /**
+   * Builds the operation and resolves the validation failure instead of
+   * throwing it.
+   */
+  public buildSafe(): Promise<
+    SafeResult<O, E, E['errorCodes']['INVALID_OPERATION']>
+  > {
+    return this.settle(() => this.build());
+  }
+
+  /**
+   * Executes the operation and resolves its failure instead of throwing it.
+   */
+  public executeSafe(): Promise<SafeResult<R, E>> {
+    return this.settle(() => this.execute());
+  }
+
   public async execute(): Promise<R> {
     /* istanbul ignore next */
     if (!this.executor) {
@@ -120,89 +353,551 @@ export class OperationBuilderBase<
       throw new Error('Operation exception factory is not set');
     }
 
-    const operation = await this.build();
+    const execution = OperationExecutionContext.createExecutionIds(
+      this.incomingCorrelationId,
+    );
 
     const executionStartedAt = process.hrtime.bigint();
+    const errorCodes = this.exceptionFactory.errorCodes;
+    // The span of the parent operation is in the execution context.
+    const span = this.tracer?.startSpan(
+      this.getOperationName(),
+      OperationExecutionContext.current()?.span,
+      {
+        'cqrs.kind': this.getOperationKind(),
+        'cqrs.name': this.getOperationName(),
+        'cqrs.operation_id': execution.operationId,
+        'cqrs.correlation_id': execution.correlationId,
+      },
+    );
 
     try {
-      const result = await this.executor.execute(operation);
+      const result = await this.executeWithinContext(
+        this.executor,
+        this.exceptionFactory,
+        execution,
+        span,
+      );
 
-      if (this.logger) {
-        const durationInMs = this.computeDurationInMs(executionStartedAt);
-        this.logger.logSuccess(operation.constructor.name, durationInMs);
-      }
+      this.recordMetrics(executionStartedAt, 'success');
 
       return result;
     } catch (error: unknown) {
-      // Map the raised error or exception into appropriate OperationFailedException
-      // or any of its children. The returned error can by string, number, error,
-      // AggregateError or already an instance of OperationFailedException.
-      const exception = this.mapToException(error, operation);
-
-      if (this.logger) {
-        const durationInMs = this.computeDurationInMs(executionStartedAt);
-        this.logger.logFailure(exception, durationInMs);
+      if (error instanceof OperationFailedException && !error.execution) {
+        error.execution = execution;
       }
 
-      throw exception;
+      const code =
+        error instanceof OperationFailedException
+          ? error.code
+          : errorCodes.INTERNAL_HANDLER_ERROR;
+
+      span?.setAttributes({
+        'cqrs.error_code': code,
+        'cqrs.validation_failed': code === errorCodes.INVALID_OPERATION,
+      });
+      span?.setError(error);
+      this.recordMetrics(executionStartedAt, code);
+
+      throw error;
+    } finally {
+      span?.end();
     }
   }
 
-  private computeDurationInMs(executionStartedAt: bigint): number {
-    const executionEndedAt = process.hrtime.bigint();
-    const executionTime = Number(executionEndedAt - executionStartedAt);
-    const durationInMs = executionTime / 1e6;
+  /**
+   * Resolves the exceptions of the operation as failures. Other errors, e.g.
+   * an exception of another operation passed through by the handler, are
+   * rethrown.
+   */
+  private async settle<T, C extends string = ErrorCodeOf<E>>(
+    callback: () => Promise<T>,
+  ): Promise<SafeResult<T, E, C>> {
+    try {
+      return { ok: true, value: await callback() };
+    } catch (error: unknown) {
+      if (this.exceptionFactory && error instanceof this.exceptionFactory) {
+        return { ok: false, error: error as OperationError<E, C> };
+      }
 
-    return durationInMs;
+      throw error;
+    }
   }
 
-  private mapToException(
-    error: unknown,
-    operation: O,
-  ): OperationFailedException<O, any> {
-    /* istanbul ignore next */
-    if (!this.exceptionFactory) {
-      throw new TypeError('Operation exception factory is not set');
+  private getOperationKind(): string {
+    return (this.exceptionFactory?.operationType ?? 'operation').toLowerCase();
+  }
+
+  private getOperationName(): string {
+    return this.metadata?.type ?? this.ctor.name;
+  }
+
+  /**
+   * Records the outcome and the duration of the execution. The errors which
+   * are not operation exceptions are counted as internal handler errors.
+   */
+  private recordMetrics(executionStartedAt: bigint, outcome: string): void {
+    const duration = Number(process.hrtime.bigint() - executionStartedAt) / 1e6;
+
+    this.metrics?.record(
+      this.getOperationKind(),
+      this.getOperationName(),
+      outcome,
+      duration,
+    );
+  }
+
+  /**
+   * Runs the callback in a child span of the execution span, if traced. The
+   * child span is the active one during the callback.
+   */
+  private async traceStep<T>(
+    parent: CqrsSpan | undefined,
+    step: string,
+    attributes: CqrsSpanAttributes,
+    callback: () => Promise<T>,
+  ): Promise<T> {
+    const tracer = this.tracer;
+    const span =
+      parent &&
+      tracer?.startSpan(
+        `${step} ${this.getOperationName()}`,
+        parent,
+        attributes,
+      );
+
+    try {
+      return await (span && tracer
+        ? tracer.withSpan(span, callback)
+        : callback());
+    } catch (error: unknown) {
+      span?.setError(error);
+      throw error;
+    } finally {
+      span?.end();
     }
+  }
+
+  /**
+   * Builds the operation and runs the middleware pipeline within the
+   * operation execution context. The operation is validated at the end of
+   * the pipeline, so an invalid operation is logged by the middlewares.
+   */
+  private async executeWithinContext(
+    executor: OperationExecutor<O, R>,
+    exceptionFactory: E,
+    execution: OperationExecutionIds,
+    span?: CqrsSpan,
+  ): Promise<R> {
+    const operation = this.transform();
+    const abortController = new AbortController();
+
+    const context: OperationMiddlewareContext<O> = {
+      operation,
+      metadata: this.metadata ?? {
+        type: this.ctor.name,
+        exceptionFactory,
+      },
+      exceptionFactory,
+      errorMappings: this.errorMappings,
+      logger: this.logger,
+      signal: abortController.signal,
+      execution,
+      span,
+      attempts: 0,
+      state: {},
+    };
+
+    const pipeline = composeOperationMiddlewares(
+      this.middlewares,
+      async (ctx) => {
+        await this.traceStep(ctx.span, 'validate', {}, () =>
+          this.validate(ctx.operation),
+        );
+
+        return this.handle(executor, ctx);
+      },
+    );
 
-    if (error instanceof OperationFailedException) {
-      return error;
-    } else if (error instanceof CommandHandlerNotFoundException) {
-      return this.exceptionFactory.HandlerNotFound(operation, error);
-    } else if (error instanceof QueryHandlerNotFoundException) {
-      return this.exceptionFactory.HandlerNotFound(operation, error);
+    const timeout = this.timeout;
+    const timeoutTimer =
+      timeout !== undefined
+        ? setTimeout(
+            () =>
+              abortController.abort(
+                exceptionFactory.Timeout(operation, timeout),
+              ),
+            timeout,
+          )
+        : undefined;
+
+    const externalSignal = this.signal;
+    const onCancel = () =>
+      abortController.abort(
+        exceptionFactory.Cancelled(operation, externalSignal?.reason),
+      );
+
+    if (externalSignal?.aborted) {
+      onCancel();
     } else {
-      return this.exceptionFactory.InternalHandlerError(
-        operation,
-        error instanceof Error ? error : new Error(String(error)),
+      externalSignal?.addEventListener('abort', onCancel, { once: true });
+    }
+
+    try {
+      return await OperationExecutionContext.run(
+        { ...execution, operation, signal: abortController.signal, span },
+        () => pipeline(context),
       );
+    } finally {
+      clearTimeout(timeoutTimer);
+      externalSignal?.removeEventListener('abort', onCancel);
     }
   }
+
+  /**
+   * The innermost step of the middleware pipeline. Subclasses override it to
+   * wrap or short-circuit the handler execution.
+   */
+  protected async handle(
+    executor: OperationExecutor<O, R>,
+    ctx: OperationMiddlewareContext<O>,
+  ): Promise<R> {
+    const result = await this.executeHandlerWithRetry(executor, ctx);
+
+    return this.validateResult(result, ctx);
+  }
+
+  /**
+   * Transforms the result into the `returns` class of the operation and
+   * validates it. An invalid result fails the execution in the strict mode
+   * and is logged as a warning in the lenient mode.
+   */
+  private async validateResult(
+    result: R,
+    ctx: OperationMiddlewareContext<O>,
+  ): Promise<R> {
+    const returns = ctx.metadata.returns;
+
+    if (!returns) {
+      return result;
+    }
+
+    const { value, errors } = await transformAndValidateResult(
+      returns,
+      result,
+      this.resultTransformOptions,
+      this.resultValidatorOptions,
+    );
+
+    if (errors.length === 0) {
+      return value;
+    }
+
+    const exception = ctx.exceptionFactory.InvalidResult(ctx.operation, errors);
+
+    if (this.resultValidation === 'lenient') {
+      ctx.logger?.logInvalidResult?.(exception, {
+        operation: ctx.operation,
+        execution: ctx.execution,
+      });
+
+      return value;
+    }
+
+    throw exception;
+  }
+
+  /**
+   * Repeats the handler execution according to the retry policy of the
+   * operation. The last failure is rethrown unmapped.
+   */
+  private async executeHandlerWithRetry(
+    executor: OperationExecutor<O, R>,
+    ctx: OperationMiddlewareContext<O>,
+  ): Promise<R> {
+    const retry = ctx.metadata.retry;
+
+    for (;;) {
+      ctx.attempts++;
+
+      try {
+        return await this.traceStep(
+          ctx.span,
+          'handle',
+          { 'cqrs.attempt': ctx.attempts },
+          () => this.executeHandler(executor, ctx),
+        );
+      } catch (error: unknown) {
+        const canRetry =
+          retry !== undefined &&
+          ctx.attempts < retry.attempts &&
+          !ctx.signal.aborted &&
+          shouldRetryOperation(
+            retry,
+            error,
+            ctx.operation,
+            ctx.exceptionFactory,
+            ctx.errorMappings,
+          );
+
+        if (!canRetry) {
+          throw error;
+        }
+
+        await waitForRetry(computeRetryDelay(retry, ctx.attempts), ctx.signal);
+      }
+    }
+  }
+
+  /**
+   * Calls the executor and rejects as soon as the execution is aborted, even
+   * if the handler keeps running.
+   */
+  private executeHandler(
+    executor: OperationExecutor<O, R>,
+    ctx: OperationMiddlewareContext<O>,
+  ): Promise<R> {
+    const { operation, signal } = ctx;
+
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      executor
+        .execute(operation)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
 }
 
-export type OperationBuilder<O extends object, R> = {
+export type OperationBuilder<
+  O extends object,
+  R,
+  S extends object = object,
+  E extends OperationFailedExceptionFactory<any, any> =
+    OperationFailedExceptionFactory<O>,
+> = {
   [K in keyof O]-?: {
-    (value: O[K]): OperationBuilder<O, R>;
+    (value: O[K]): OperationBuilder<O, R, S, E>;
     (): O[K];
   };
 } & {
   build: () => Promise<O>;
-  clear: () => OperationBuilder<O, R>;
+  /**
+   * Builds the operation and resolves the `INVALID_OPERATION` failure as
+   * `{ ok: false, error }` instead of throwing it.
+   */
+  buildSafe: () => Promise<
+    SafeResult<O, E, E['errorCodes']['INVALID_OPERATION']>
+  >;
+  clear: () => OperationBuilder<O, R, S, E>;
   execute: () => Promise<R>;
-};
-
-export type CommandBuilder<C extends object, R> = OperationBuilder<C, R>;
+  /**
+   * Executes the operation and resolves its failure as `{ ok: false, error }`
+   * instead of throwing it. The error is the exception of the operation.
+   */
+  executeSafe: () => Promise<SafeResult<R, E>>;
+  /**
+   * Cancels the execution when the signal is aborted. (An operation field
+   * named `signal` stays accessible for non `AbortSignal` values.)
+   */
+  signal: (signal: AbortSignal) => OperationBuilder<O, R, S, E>;
+  /**
+   * Sets the correlation id of the execution, e.g. from a request header.
+   * (Named apart from the operation fields, e.g. a `correlationId`.)
+   */
+  withCorrelationId: (correlationId: string) => OperationBuilder<O, R, S, E>;
+} & S;
+
+export type CommandBuilder<
+  C extends object,
+  R,
+  E extends OperationFailedExceptionFactory<any, any> =
+    Command.ExceptionFactory<C>,
+> = OperationBuilder<
+  C,
+  R,
+  {
+    /**
+     * Executes the command only once for the given key. Overrides the key
+     * derived by the `idempotent` option of the `@Command` decorator.
+     */
+    withIdempotencyKey: (key: string) => CommandBuilder<C, R, E>;
+  },
+  E
+>;
+
+const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
 
 export class CommandBuilderBase<
   C extends object,
   R,
   E extends Command.ExceptionFactory<C, any>,
-> extends OperationBuilderBase<C, R, E> {}
+> extends OperationBuilderBase<C, R, E> {
+  public static readonly steps: readonly string[] = [
+    ...OperationBuilderBase.steps,
+    'withIdempotencyKey',
+  ];
+
+  private idempotencyStore?: IdempotencyStore;
+
+  private explicitIdempotencyKey?: string;
 
-export type QueryBuilder<Q extends object, R> = OperationBuilder<Q, R>;
+  private queryCache?: QueryCache;
+
+  public setIdempotencyStore(idempotencyStore?: IdempotencyStore): this {
+    this.idempotencyStore = idempotencyStore;
+    return this;
+  }
+
+  public setQueryCache(queryCache?: QueryCache): this {
+    this.queryCache = queryCache;
+    return this;
+  }
+
+  public withIdempotencyKey(key: string): this {
+    this.explicitIdempotencyKey = key;
+    return this;
+  }
+
+  protected async handle(
+    executor: OperationExecutor<C, R>,
+    ctx: OperationMiddlewareContext<C>,
+  ): Promise<R> {
+    const result = await this.executeIdempotently(executor, ctx);
+    const invalidates = (ctx.metadata as Command.Metadata<any>).invalidates;
+
+    if (this.queryCache && invalidates && invalidates.length > 0) {
+      await this.queryCache.invalidate(
+        invalidates.map((tag) =>
+          typeof tag === 'string'
+            ? tag
+            : (Query.metadata.get(tag)?.type ?? tag.name),
+        ),
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Replays the remembered outcome of a command executed with the same
+   * idempotency key, or executes the command and remembers its outcome.
+   */
+  private async executeIdempotently(
+    executor: OperationExecutor<C, R>,
+    ctx: OperationMiddlewareContext<C>,
+  ): Promise<R> {
+    const idempotent = (ctx.metadata as Command.Metadata<any>).idempotent;
+    const key = this.explicitIdempotencyKey ?? idempotent?.key(ctx.operation);
+
+    if (key === undefined || !this.idempotencyStore) {
+      return super.handle(executor, ctx);
+    }
+
+    const store = this.idempotencyStore;
+    const storeKey = `${ctx.metadata.type}:${key}`;
+    const ttl = idempotent?.ttl ?? DEFAULT_IDEMPOTENCY_TTL;
+    const record = await store.acquire(storeKey, ttl);
+
+    if (record?.status === 'in-progress') {
+      throw (
+        ctx.exceptionFactory as Command.ExceptionFactory<C>
+      ).DuplicateInProgress(ctx.operation, key);
+    } else if (record?.status === 'succeeded') {
+      return record.result as R;
+    } else if (record?.status === 'failed') {
+      throw record.exception;
+    }
+
+    try {
+      const result = await super.handle(executor, ctx);
+      await store.complete(storeKey, { status: 'succeeded', result }, ttl);
+
+      return result;
+    } catch (error: unknown) {
+      const exception = mapToOperationException(
+        error,
+        ctx.operation,
+        ctx.exceptionFactory,
+        ctx.errorMappings,
+      );
+      const errorCodes = ctx.exceptionFactory.errorCodes;
+
+      // An interrupted command has no outcome, so it can be executed again.
+      if (
+        exception.code === errorCodes.TIMEOUT ||
+        exception.code === errorCodes.CANCELLED
+      ) {
+        await store.release(storeKey);
+      } else {
+        await store.complete(storeKey, { status: 'failed', exception }, ttl);
+      }
+
+      throw exception;
+    }
+  }
+}
+
+export type QueryBuilder<
+  Q extends object,
+  R,
+  E extends OperationFailedExceptionFactory<any, any> =
+    Query.ExceptionFactory<Q>,
+> = OperationBuilder<Q, R, object, E>;
 
 export class QueryBuilderBase<
   Q extends object,
   R,
   E extends Query.ExceptionFactory<Q, any>,
-> extends OperationBuilderBase<Q, R, E> {}
+> extends OperationBuilderBase<Q, R, E> {
+  private queryCache?: QueryCache;
+
+  public setQueryCache(queryCache?: QueryCache): this {
+    this.queryCache = queryCache;
+    return this;
+  }
+
+  /**
+   * Serves the query from the cache, or executes it and caches its result.
+   */
+  protected async handle(
+    executor: OperationExecutor<Q, R>,
+    ctx: OperationMiddlewareContext<Q>,
+  ): Promise<R> {
+    const cache = (ctx.metadata as Query.Metadata<any>).cache;
+
+    if (!cache || !this.queryCache) {
+      return super.handle(executor, ctx);
+    }
+
+    const query = ctx.operation;
+    const key = `${ctx.metadata.type}:${
+      cache.key ? cache.key(query) : JSON.stringify(instanceToPlain(query))
+    }`;
+    const entry = await this.queryCache.get(key);
+
+    if (entry) {
+      ctx.cache = 'hit';
+      return entry.value as R;
+    }
+
+    ctx.cache = 'miss';
+
+    const result = await super.handle(executor, ctx);
+    const tags =
+      typeof cache.tags === 'function' ? cache.tags(query) : cache.tags;
+
+    await this.queryCache.set(key, result, {
+      ttl: cache.ttl,
+      tags: [ctx.metadata.type, ...(tags ?? [])],
+    });
+
+    return result;
+  }
+}
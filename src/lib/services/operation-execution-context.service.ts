@@ -0,0 +1,143 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { CqrsSpan } from '../tracing/cqrs.tracer';
+
+/**
+ * Identifies an operation execution and links it to the executions it was
+ * caused by.
+ */
+export interface OperationExecutionIds {
+  /**
+   * The unique id of the operation execution.
+   */
+  operationId: string;
+  /**
+   * Shared by all operations executed on behalf of the same request. It is
+   * inherited from the parent operation or the incoming correlation id, and
+   * defaults to the id of the outermost operation.
+   */
+  correlationId: string;
+  /**
+   * The id of the parent operation whose handler executed this operation.
+   * (Not set for the outermost operation.)
+   */
+  causationId?: string;
+  /**
+   * How deep the operation is nested. (0 for the outermost operation)
+   */
+  depth: number;
+}
+
+/**
+ * The state of a running operation, available to its handler and to
+ * everything the handler calls.
+ */
+export interface OperationExecutionState<
+  O extends object = object,
+> extends OperationExecutionIds {
+  /**
+   * The executed operation.
+   */
+  operation: O;
+  /**
+   * Aborted when the operation execution times out or is cancelled. Handlers
+   * should pass it to the long running calls or check it to stop the work
+   * early.
+   */
+  signal: AbortSignal;
+  /**
+   * The tracing span of the execution. (Set only if a tracer is configured.)
+   */
+  span?: CqrsSpan;
+}
+
+/**
+ * Gives the operation handlers access to the state of the operation they are
+ * executing. The provider is stateless, the state is bound to the async
+ * execution of each operation, so it can be injected into singletons.
+ */
+@Injectable()
+export class OperationExecutionContext {
+  private static readonly storage =
+    new AsyncLocalStorage<OperationExecutionState>();
+
+  private static readonly correlationStorage = new AsyncLocalStorage<string>();
+
+  /**
+   * Runs the callback within the execution state of an operation.
+   */
+  public static run<T>(state: OperationExecutionState, callback: () => T): T {
+    return this.storage.run(state, callback);
+  }
+
+  /**
+   * Runs the callback with an incoming correlation id, e.g. read from
+   * a request header. The operations executed within the callback inherit it.
+   */
+  public static withCorrelationId<T>(
+    correlationId: string,
+    callback: () => T,
+  ): T {
+    return this.correlationStorage.run(correlationId, callback);
+  }
+
+  /**
+   * Creates the ids of a new operation execution nested in the operation
+   * currently being executed, if any.
+   */
+  public static createExecutionIds(
+    correlationId?: string,
+  ): OperationExecutionIds {
+    const parent = this.current();
+    const operationId = randomUUID();
+
+    return {
+      operationId,
+      correlationId:
+        correlationId ??
+        parent?.correlationId ??
+        this.correlationStorage.getStore() ??
+        operationId,
+      ...(parent && { causationId: parent.operationId }),
+      depth: parent ? parent.depth + 1 : 0,
+    };
+  }
+
+  /**
+   * Returns the state of the operation currently being executed or
+   * `undefined` if called outside of an operation handler.
+   */
+  public static current<O extends object = object>():
+    OperationExecutionState<O> | undefined {
+    return this.storage.getStore() as OperationExecutionState<O> | undefined;
+  }
+
+  /**
+   * The operation currently being executed.
+   */
+  public get operation(): object | undefined {
+    return OperationExecutionContext.current()?.operation;
+  }
+
+  /**
+   * The abort signal of the operation currently being executed.
+   */
+  public get signal(): AbortSignal | undefined {
+    return OperationExecutionContext.current()?.signal;
+  }
+
+  /**
+   * The id of the operation currently being executed.
+   */
+  public get operationId(): string | undefined {
+    return OperationExecutionContext.current()?.operationId;
+  }
+
+  /**
+   * The correlation id of the operation currently being executed.
+   */
+  public get correlationId(): string | undefined {
+    return OperationExecutionContext.current()?.correlationId;
+  }
+}
@@ -7,10 +7,29 @@ import {
 import { CommandLogger, QueryLogger } from './operation-logger.service';
 import { mock } from 'jest-mock-extended';
 import { CommandFactory, QueryFactory } from './operation-factory.service';
+import {
+  OperationExecutionContext,
+  OperationExecutionState,
+} from './operation-execution-context.service';
 import { CommandFailedException, QueryFailedException } from '../exceptions';
+import { InMemoryIdempotencyStore } from '../idempotency';
+import { InMemoryQueryCache } from '../cache';
+import { CqrsMetrics } from '../metrics';
+import { CqrsSpan, InMemoryTracer } from '../tracing';
 import { Command, Query } from '../decorators';
-import { IsString, MaxLength, MinLength } from 'class-validator';
+import { IsString, MaxLength, MinLength, ValidateIf } from 'class-validator';
 import { Transform } from 'class-transformer';
+import {
+  loggingMiddleware,
+  OperationMiddleware,
+  OperationMiddlewareContext,
+} from '../middlewares';
+
+const execution = expect.objectContaining({
+  operationId: expect.any(String),
+  correlationId: expect.any(String),
+  depth: 0,
+});
 
 describe('(Unit) OperationFactory', () => {
   describe('(Unit) CommandFactory', () => {
@@ -321,6 +340,7 @@ describe('(Unit) OperationFactory', () => {
       expect(spyOnLogCommandExecuted).toHaveBeenCalledWith(
         'MyCommand',
         expect.any(Number),
+        { attempts: 1, operation: expect.any(MyCommand), result, execution },
       );
     });
 
@@ -345,7 +365,30 @@ describe('(Unit) OperationFactory', () => {
           origError: customError,
         }),
         expect.any(Number),
+        { attempts: 1, operation: expect.any(MyCommand), execution },
+      );
+    });
+
+    it('should log an invalid command', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {
+        @MinLength(5)
+        public name!: string;
+      }
+      spyOnLogCommandFailed = jest.spyOn(logger, 'logFailure');
+      // Act
+      const act = () => factory.create(MyCommand).name('AA').execute();
+      // Assert
+      await expect(act).rejects.toThrow(CommandFailedException);
+      expect(spyOnLogCommandFailed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.INVALID_OPERATION,
+        }),
+        expect.any(Number),
+        { attempts: 0, operation: expect.any(MyCommand), execution },
       );
+      expect(commandBus.execute).not.toHaveBeenCalled();
     });
 
     it('should throw a custom exception from the handler', async () => {
@@ -381,261 +424,1209 @@ describe('(Unit) OperationFactory', () => {
       // Assert
       expect(command).toEqual({ name: 'John', age: 100 });
     });
-  });
-
-  describe('(Unit) QueryFactory', () => {
-    let queryBus: QueryBus;
-    let logger: QueryLogger;
-    let factory: QueryFactory;
-    let spyOnExecute: jest.SpyInstance;
-    let spyOnLogQueryExecuted: jest.SpyInstance;
-    let spyOnLogQueryFailed: jest.SpyInstance;
-
-    beforeEach(() => {
-      queryBus = mock<QueryBus>();
-      logger = mock<QueryLogger>();
-      factory = new QueryFactory(logger, queryBus);
-    });
-
-    afterEach(() => {
-      if (spyOnExecute) {
-        spyOnExecute.mockRestore();
-      }
-      if (spyOnLogQueryExecuted) {
-        spyOnLogQueryExecuted.mockRestore();
-      }
-      if (spyOnLogQueryFailed) {
-        spyOnLogQueryFailed.mockRestore();
-      }
-    });
 
-    it('should fail to build a query without @Query decorator', async () => {
+    it('should pass the validator options to the validation', async () => {
       // Arrange
-      class TestQuery {}
+      @Command()
+      class MyCommand {
+        @IsString()
+        public name!: string;
+      }
+      factory = new CommandFactory(logger, commandBus, {
+        validatorOptions: { skipMissingProperties: true },
+      });
       // Act
-      const act = () => factory.create(TestQuery);
+      const command = await factory.create(MyCommand).build();
       // Assert
-      expect(act).toThrow(TypeError);
+      expect(command).toBeInstanceOf(MyCommand);
     });
 
-    it('should automatically expose setter methods from the query properties', async () => {
+    it('should pass the transform options to the transformation', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
+      @Command()
+      class MyCommand {
         public name!: string;
-        public age!: number;
+        public age?: number;
       }
-
-      const builder = factory.create(MyQuery);
+      factory = new CommandFactory(logger, commandBus, {
+        transformOptions: { excludeExtraneousValues: true },
+      });
       // Act
-      const query = await builder.name('John').age(30).build();
+      const command = await factory.create(MyCommand).name('John').build();
       // Assert
-      expect(query).toEqual({ name: 'John', age: 30 });
+      expect(command.name).toBeUndefined();
     });
 
-    it('should return a query property value', () => {
+    it('should execute a command with a custom executor', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        public name!: string;
-      }
-
-      const builder = factory.create(MyQuery);
+      @Command()
+      class MyCommand {}
+      const commandExecutor = { execute: jest.fn().mockResolvedValue(42) };
+      factory = new CommandFactory(logger, commandBus, { commandExecutor });
       // Act
-      const value = builder.name('John').name();
+      const actual = await factory.create(MyCommand).execute();
       // Assert
-      expect(value).toBe('John');
+      expect(actual).toBe(42);
+      expect(commandBus.execute).not.toHaveBeenCalled();
     });
 
-    it('should return a default value for a query property', () => {
+    it('should not log when the logging is disabled', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        public name = 'John';
-      }
-
-      const builder = factory.create(MyQuery);
+      @Command()
+      class MyCommand {}
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      spyOnLogCommandExecuted = jest.spyOn(logger, 'logSuccess');
+      factory = new CommandFactory(logger, commandBus, { logger: false });
       // Act
-      const value = builder.name();
+      await factory.create(MyCommand).execute();
       // Assert
-      expect(value).toBe('John');
+      expect(spyOnLogCommandExecuted).not.toHaveBeenCalled();
     });
 
-    it('should run a validation on a query property', async () => {
+    it('should run global, factory and operation middlewares in order', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        @MaxLength(5)
-        public name!: string;
-      }
-
-      const builder = factory.create(MyQuery);
+      const calls: string[] = [];
+      const createMiddleware =
+        (name: string): OperationMiddleware =>
+        (_ctx, next) => {
+          calls.push(name);
+          return next();
+        };
+      @Command({ middlewares: [createMiddleware('operation')] })
+      class MyCommand {}
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      factory = new CommandFactory(logger, commandBus, {
+        middlewares: [createMiddleware('global')],
+      });
+      factory.use(createMiddleware('factory'));
       // Act
-      const act = builder.name('JohnJohn').build();
+      await factory.create(MyCommand).execute();
       // Assert
-      await expect(act).rejects.toThrow(
-        expect.objectContaining({
-          code: QueryFailedException.errorCodes.INVALID_OPERATION,
-        }),
-      );
+      expect(calls).toEqual(['global', 'factory', 'operation']);
     });
 
-    it('should wrap the validation error as aggregate error and expose it on the exception', async () => {
+    it('should expose the operation and its metadata to the middlewares', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        @MaxLength(5)
+      let context: OperationMiddlewareContext | undefined;
+      @Command({ description: 'Test command' })
+      class MyCommand {
         public name!: string;
       }
-
-      const builder = factory.create(MyQuery);
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      factory.use((ctx, next) => {
+        context = ctx;
+        return next();
+      });
       // Act
-      const act = builder.name('JohnJohn').build();
+      await factory.create(MyCommand).name('John').execute();
       // Assert
-      await expect(act).rejects.toThrow(
+      expect(context).toEqual(
         expect.objectContaining({
-          origError: expect.objectContaining({
-            errors: expect.arrayContaining([
-              expect.objectContaining({
-                property: 'name',
-                constraints: {
-                  maxLength:
-                    'name must be shorter than or equal to 5 characters',
-                },
-              }),
-            ]),
-          }),
+          operation: { name: 'John' },
+          metadata: expect.objectContaining({ description: 'Test command' }),
+          exceptionFactory: CommandFailedException,
         }),
       );
     });
 
-    it('should apply custom property transformation', async () => {
+    it('should run the middlewares for an invalid command', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        @Transform(({ value }) =>
-          typeof value === 'string' ? value.toUpperCase() : value,
-        )
+      @Command()
+      class MyCommand {
+        @MinLength(5)
         public name!: string;
       }
-
-      const builder = factory.create(MyQuery);
+      const errors: unknown[] = [];
+      factory = new CommandFactory(logger, commandBus, { middlewares: [] });
+      factory.use(async (_ctx, next) => {
+        try {
+          return await next();
+        } catch (error: unknown) {
+          errors.push(error);
+          throw error;
+        }
+      });
+      spyOnLogCommandFailed = jest.spyOn(logger, 'logFailure');
       // Act
-      const query = await builder.name('John').build();
+      const act = () => factory.create(MyCommand).name('AA').execute();
       // Assert
-      expect(query).toEqual({ name: 'JOHN' });
+      await expect(act).rejects.toThrow(CommandFailedException);
+      expect(errors).toEqual([
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.INVALID_OPERATION,
+        }),
+      ]);
+      expect(spyOnLogCommandFailed).not.toHaveBeenCalled();
     });
 
-    it('should clear the mutated query state', () => {
+    it('should not map errors without the exception mapping middleware', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        public name!: string;
-      }
-
-      const builder = factory.create(MyQuery);
+      @Command()
+      class MyCommand {}
+      const customError = new Error('Custom error');
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValue(customError);
+      factory = new CommandFactory(logger, commandBus, {
+        middlewares: [loggingMiddleware],
+      });
       // Act
-      const name = builder.name('John').clear().name();
+      const act = () => factory.create(MyCommand).execute();
       // Assert
-      expect(name).toBeUndefined();
+      await expect(act).rejects.toBe(customError);
     });
 
-    it('should clear the mutated state to default value', () => {
+    it('should fail with a timeout exception when the handler is too slow', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        public name = 'John';
-      }
-
-      const builder = factory.create(MyQuery);
+      @Command({ timeout: 10 })
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockReturnValue(new Promise(() => undefined));
+      spyOnLogCommandFailed = jest.spyOn(logger, 'logFailure');
       // Act
-      const name = builder.name('Jane').clear().name();
+      const act = () => factory.create(MyCommand).execute();
       // Assert
-      expect(name).toBe('John');
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.TIMEOUT,
+        }),
+      );
+      expect(spyOnLogCommandFailed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.TIMEOUT,
+        }),
+        expect.any(Number),
+        { attempts: 1, operation: expect.any(MyCommand), execution },
+      );
     });
 
-    it('should accept an object for nested property', () => {
+    it('should apply the module-wide timeout', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        public nested!: {
-          name: string;
-        };
-      }
-      const builder = factory.create(MyQuery);
+      @Command()
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockReturnValue(new Promise(() => undefined));
+      factory = new CommandFactory(logger, commandBus, { timeout: 10 });
       // Act
-      builder.nested({ name: 'John' });
+      const act = () => factory.create(MyCommand).execute();
       // Assert
-      expect(builder.nested()).toEqual({ name: 'John' });
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.TIMEOUT,
+        }),
+      );
     });
 
-    it('should support setting items into an array property', () => {
+    it('should abort the signal passed to the handler on timeout', async () => {
       // Arrange
-      @Query()
-      class MyQuery {
-        public names!: string[];
-      }
-      const builder = factory.create(MyQuery);
+      @Command({ timeout: 10 })
+      class MyCommand {}
+      let signal: AbortSignal | undefined;
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockImplementation(
+        () =>
+          new Promise(() => {
+            signal = OperationExecutionContext.current()?.signal;
+          }),
+      );
       // Act
-      builder.names(['John', 'Jane']);
+      await factory
+        .create(MyCommand)
+        .execute()
+        .catch(() => undefined);
       // Assert
-      expect(builder.names()).toEqual(['John', 'Jane']);
+      expect(signal?.aborted).toBe(true);
     });
 
-    it('should execute a query handler', async () => {
+    it('should keep an operation field named timeout accessible', async () => {
       // Arrange
-      const result = 42;
-      @Query()
-      class MyQuery {
-        public name!: string;
+      @Command()
+      class MyCommand {
+        public timeout!: number;
       }
-      spyOnExecute = jest.spyOn(queryBus, 'execute').mockResolvedValue(result);
       // Act
-      const actual = await factory.create(MyQuery).name('John').execute();
-
+      const command = await factory.create(MyCommand).timeout(5).build();
       // Assert
-      expect(actual).toBe(result);
+      expect(command).toEqual({ timeout: 5 });
     });
 
-    it('should fail if the handler does not exits', async () => {
+    it('should fail with a cancelled exception when the signal is aborted', async () => {
       // Arrange
-      @Query()
-      class MyQuery {}
-      spyOnExecute = jest
-        .spyOn(queryBus, 'execute')
-        .mockRejectedValue(new QueryHandlerNotFoundException(MyQuery.name));
+      @Command()
+      class MyCommand {}
+      const abortController = new AbortController();
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockImplementation(
+        () =>
+          new Promise(() => {
+            abortController.abort();
+          }),
+      );
       // Act
-      const act = () => factory.create(MyQuery).execute();
+      const act = () =>
+        factory.create(MyCommand).signal(abortController.signal).execute();
       // Assert
-      await expect(act).rejects.toThrow(QueryFailedException);
       await expect(act).rejects.toThrow(
         expect.objectContaining({
-          code: QueryFailedException.errorCodes.HANDLER_NOT_FOUND,
-          origError: expect.any(QueryHandlerNotFoundException),
+          code: CommandFailedException.errorCodes.CANCELLED,
         }),
       );
     });
 
-    it('should catch custom error in query handler into internal handler error', async () => {
+    it('should not execute a handler with an already aborted signal', async () => {
       // Arrange
-      @Query()
-      class TestQuery {}
-      const customError = new Error('Custom error');
-      spyOnExecute = jest
-        .spyOn(queryBus, 'execute')
-        .mockRejectedValue(customError);
+      @Command()
+      class MyCommand {}
+      spyOnExecute = jest.spyOn(commandBus, 'execute');
       // Act
-      const act = () => factory.create(TestQuery).execute();
+      const act = () =>
+        factory.create(MyCommand).signal(AbortSignal.abort()).execute();
       // Assert
       await expect(act).rejects.toThrow(
         expect.objectContaining({
-          code: QueryFailedException.errorCodes.INTERNAL_HANDLER_ERROR,
-          origError: customError,
+          code: CommandFailedException.errorCodes.CANCELLED,
         }),
       );
+      expect(spyOnExecute).not.toHaveBeenCalled();
     });
 
-    it('should let pass a child of QueryFailedException', async () => {
+    it('should keep an operation field named signal accessible', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {
+        public signal!: string;
+      }
+      // Act
+      const command = await factory
+        .create(MyCommand)
+        .signal('SIGTERM')
+        .signal(new AbortController().signal)
+        .build();
+      // Assert
+      expect(command).toEqual({ signal: 'SIGTERM' });
+    });
+
+    it('should expose the signal through the injectable execution context', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      const executionContext = new OperationExecutionContext();
+      const abortController = new AbortController();
+      let signal: AbortSignal | undefined;
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockImplementation(async () => {
+          signal = executionContext.signal;
+        });
+      // Act
+      await factory.create(MyCommand).signal(abortController.signal).execute();
+      abortController.abort();
+      // Assert
+      expect(signal).toBeInstanceOf(AbortSignal);
+      expect(signal?.aborted).toBe(false);
+    });
+
+    it('should link a nested query to the executing command', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      @Query()
+      class MyQuery {}
+      const queryBus = mock<QueryBus>();
+      const queryFactory = new QueryFactory(mock<QueryLogger>(), queryBus);
+      const states: (OperationExecutionState | undefined)[] = [];
+      jest.spyOn(queryBus, 'execute').mockImplementation(async () => {
+        states.push(OperationExecutionContext.current());
+      });
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockImplementation(async () => {
+          states.push(OperationExecutionContext.current());
+          await queryFactory.create(MyQuery).execute();
+        });
+      // Act
+      await factory.create(MyCommand).execute();
+      // Assert
+      const [commandState, queryState] = states;
+      expect(commandState).toMatchObject({
+        correlationId: commandState?.operationId,
+        depth: 0,
+      });
+      expect(commandState?.causationId).toBeUndefined();
+      expect(queryState).toMatchObject({
+        correlationId: commandState?.operationId,
+        causationId: commandState?.operationId,
+        depth: 1,
+      });
+      expect(queryState?.operationId).not.toBe(commandState?.operationId);
+    });
+
+    it('should validate the command within its execution context', async () => {
+      // Arrange
+      let state: OperationExecutionState | undefined;
+      @Command()
+      class MyCommand {
+        @ValidateIf(() => {
+          state = OperationExecutionContext.current();
+          return true;
+        })
+        @IsString()
+        public name!: string;
+      }
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      // Act
+      await factory.create(MyCommand).name('John').execute();
+      // Assert
+      expect(state).toMatchObject({
+        operation: { name: 'John' },
+        operationId: expect.any(String),
+      });
+    });
+
+    it('should inherit the incoming correlation id', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      let correlationId: string | undefined;
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockImplementation(async () => {
+          correlationId = new OperationExecutionContext().correlationId;
+        });
+      // Act
+      await OperationExecutionContext.withCorrelationId('request-1', () =>
+        factory.create(MyCommand).execute(),
+      );
+      // Assert
+      expect(correlationId).toBe('request-1');
+    });
+
+    it('should prefer the correlation id set on the builder', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      let correlationId: string | undefined;
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockImplementation(async () => {
+          correlationId = new OperationExecutionContext().correlationId;
+        });
+      // Act
+      await OperationExecutionContext.withCorrelationId('request-1', () =>
+        factory.create(MyCommand).withCorrelationId('request-2').execute(),
+      );
+      // Assert
+      expect(correlationId).toBe('request-2');
+    });
+
+    it('should keep an operation field named idempotencyKey settable', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {
+        public idempotencyKey!: string;
+      }
+      // Act
+      const command = await factory
+        .create(MyCommand)
+        .idempotencyKey('order-1')
+        .withIdempotencyKey('request-1')
+        .build();
+      // Assert
+      expect(command.idempotencyKey).toBe('order-1');
+    });
+
+    it('should not expose the builder configuration as steps', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      const builder = factory.create(MyCommand);
+      // Act
+      Reflect.get(builder, 'setExecutor')({ execute: async () => 0 });
+      const result = await builder.execute();
+      // Assert
+      expect(result).toBe(42);
+    });
+
+    it('should keep an operation field named correlationId settable', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {
+        public correlationId!: string;
+      }
+      // Act
+      const command = await factory
+        .create(MyCommand)
+        .correlationId('order-1')
+        .withCorrelationId('request-1')
+        .build();
+      // Assert
+      expect(command.correlationId).toBe('order-1');
+    });
+
+    it('should set the execution ids on the command failed exception', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValue(new Error('Custom error'));
+      // Act
+      const act = () =>
+        factory.create(MyCommand).withCorrelationId('request-1').execute();
+      // Assert
+      await expect(act).rejects.toMatchObject({
+        execution: {
+          operationId: expect.any(String),
+          correlationId: 'request-1',
+          depth: 0,
+        },
+      });
+    });
+
+    it('should retry a failed handler execution', async () => {
+      // Arrange
+      @Command({ retry: { attempts: 3, delay: 1 } })
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValueOnce(new Error('Connection lost'))
+        .mockResolvedValueOnce(42);
+      // Act
+      const result = await factory.create(MyCommand).execute();
+      // Assert
+      expect(result).toBe(42);
+      expect(spyOnExecute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report all attempts of a failed execution', async () => {
+      // Arrange
+      @Command({ retry: { attempts: 3, delay: 1, backoff: 'exponential' } })
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValue(new Error('Connection lost'));
+      spyOnLogCommandFailed = jest.spyOn(logger, 'logFailure');
+      // Act
+      const act = () => factory.create(MyCommand).execute();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.INTERNAL_HANDLER_ERROR,
+        }),
+      );
+      expect(spyOnExecute).toHaveBeenCalledTimes(3);
+      expect(spyOnLogCommandFailed).toHaveBeenCalledWith(
+        expect.any(CommandFailedException),
+        expect.any(Number),
+        { attempts: 3, operation: expect.any(MyCommand), execution },
+      );
+    });
+
+    it('should not retry an error code outside of the retry policy', async () => {
+      // Arrange
+      @Command({ retry: { attempts: 3, delay: 1 } })
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValue(new CommandHandlerNotFoundException(MyCommand.name));
+      // Act
+      const act = () => factory.create(MyCommand).execute();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.HANDLER_NOT_FOUND,
+        }),
+      );
+      expect(spyOnExecute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry only errors accepted by the retry predicate', async () => {
+      // Arrange
+      class TransientError extends Error {}
+      @Command({
+        retry: {
+          attempts: 3,
+          delay: 1,
+          retryOn: (error) => error instanceof TransientError,
+        },
+      })
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValueOnce(new TransientError('Deadlock'))
+        .mockRejectedValueOnce(new Error('Constraint violation'));
+      // Act
+      const act = () => factory.create(MyCommand).execute();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          reason: 'Internal handler error: Constraint violation',
+        }),
+      );
+      expect(spyOnExecute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the stored result for a repeated idempotency key', async () => {
+      // Arrange
+      @Command({ idempotent: { key: (command: MyCommand) => command.email } })
+      class MyCommand {
+        public email!: string;
+      }
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockResolvedValueOnce('user-1')
+        .mockResolvedValueOnce('user-2');
+      // Act
+      const first = await factory.create(MyCommand).email('a@b.cz').execute();
+      const second = await factory.create(MyCommand).email('a@b.cz').execute();
+      // Assert
+      expect(first).toBe('user-1');
+      expect(second).toBe('user-1');
+      expect(spyOnExecute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow the stored exception for a repeated idempotency key', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValueOnce(new Error('Custom error'))
+        .mockResolvedValueOnce(42);
+      const execute = () =>
+        factory.create(MyCommand).withIdempotencyKey('request-1').execute();
+      const firstError = await execute().catch((error) => error);
+      // Act
+      const act = () => execute();
+      // Assert
+      await expect(act).rejects.toBe(firstError);
+      expect(spyOnExecute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a concurrent duplicate as in progress', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      let resolveFirst!: (value: number) => void;
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveFirst = resolve;
+        }),
+      );
+      const execute = () =>
+        factory.create(MyCommand).withIdempotencyKey('request-1').execute();
+      const first = execute();
+      // Act
+      const act = () => execute();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.DUPLICATE_IN_PROGRESS,
+        }),
+      );
+      resolveFirst(42);
+      await expect(first).resolves.toBe(42);
+    });
+
+    it('should use a custom idempotency store', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      const idempotencyStore = new InMemoryIdempotencyStore();
+      const spyOnAcquire = jest.spyOn(idempotencyStore, 'acquire');
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      factory = new CommandFactory(logger, commandBus, { idempotencyStore });
+      // Act
+      await factory.create(MyCommand).withIdempotencyKey('request-1').execute();
+      // Assert
+      expect(spyOnAcquire).toHaveBeenCalledWith(
+        'MyCommand:request-1',
+        expect.any(Number),
+      );
+    });
+
+    it('should trace the execution with the validation and handler spans', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      const tracer = new InMemoryTracer();
+      factory = new CommandFactory(logger, commandBus, { tracer });
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      // Act
+      await factory.create(MyCommand).execute();
+      // Assert
+      const [span, validateSpan, handleSpan] = tracer.spans;
+      expect(tracer.spans).toHaveLength(3);
+      expect(span).toMatchObject({
+        name: 'MyCommand',
+        attributes: {
+          'cqrs.kind': 'command',
+          'cqrs.name': 'MyCommand',
+          'cqrs.operation_id': expect.any(String),
+          'cqrs.correlation_id': expect.any(String),
+        },
+        ended: true,
+      });
+      expect(validateSpan).toMatchObject({
+        name: 'validate MyCommand',
+        parent: span,
+        ended: true,
+      });
+      expect(handleSpan).toMatchObject({
+        name: 'handle MyCommand',
+        parent: span,
+        attributes: { 'cqrs.attempt': 1 },
+        ended: true,
+      });
+    });
+
+    it('should run the handler with its span active', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      let activeSpan: CqrsSpan | undefined;
+      class ActiveSpanTracer extends InMemoryTracer {
+        public withSpan<T>(span: CqrsSpan, callback: () => T): T {
+          activeSpan = span;
+          return callback();
+        }
+      }
+      const tracer = new ActiveSpanTracer();
+      factory = new CommandFactory(logger, commandBus, { tracer });
+      let spanOfHandler: CqrsSpan | undefined;
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockImplementation(async () => {
+          spanOfHandler = activeSpan;
+        });
+      // Act
+      await factory.create(MyCommand).execute();
+      // Assert
+      expect(spanOfHandler).toBe(tracer.spans[2]);
+      expect(tracer.spans[2].name).toBe('handle MyCommand');
+    });
+
+    it('should trace the error code of a failed execution', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {
+        @IsString()
+        public name!: string;
+      }
+      const tracer = new InMemoryTracer();
+      factory = new CommandFactory(logger, commandBus, { tracer });
+      // Act
+      const act = () => factory.create(MyCommand).execute();
+      // Assert
+      await expect(act).rejects.toThrow(CommandFailedException);
+      const [span, validateSpan] = tracer.spans;
+      expect(tracer.spans).toHaveLength(2);
+      expect(span.attributes).toMatchObject({
+        'cqrs.error_code': CommandFailedException.errorCodes.INVALID_OPERATION,
+        'cqrs.validation_failed': true,
+      });
+      expect(span.error).toBeInstanceOf(CommandFailedException);
+      expect(validateSpan.error).toBe(span.error);
+    });
+
+    it('should trace a nested query as a child of the command', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      @Query()
+      class MyQuery {}
+      const tracer = new InMemoryTracer();
+      const queryBus = mock<QueryBus>();
+      const queryFactory = new QueryFactory(mock<QueryLogger>(), queryBus, {
+        tracer,
+      });
+      factory = new CommandFactory(logger, commandBus, { tracer });
+      jest.spyOn(queryBus, 'execute').mockResolvedValue('John');
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockImplementation(() => queryFactory.create(MyQuery).execute());
+      // Act
+      await factory.create(MyCommand).execute();
+      // Assert
+      const commandSpan = tracer.spans.find(({ name }) => name === 'MyCommand');
+      const querySpan = tracer.spans.find(({ name }) => name === 'MyQuery');
+      expect(querySpan?.parent).toBe(commandSpan);
+      expect(querySpan?.attributes['cqrs.kind']).toBe('query');
+    });
+
+    it('should record the outcomes in the metrics', async () => {
+      // Arrange
+      @Command()
+      class MyCommand {}
+      const metrics = new CqrsMetrics();
+      const spyOnRecord = jest.spyOn(metrics, 'record');
+      factory = new CommandFactory(logger, commandBus, {}, undefined, metrics);
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockResolvedValueOnce(42)
+        .mockRejectedValueOnce(new Error('Custom error'));
+      // Act
+      await factory.create(MyCommand).execute();
+      await factory
+        .create(MyCommand)
+        .execute()
+        .catch(() => undefined);
+      // Assert
+      expect(spyOnRecord).toHaveBeenNthCalledWith(
+        1,
+        'command',
+        'MyCommand',
+        'success',
+        expect.any(Number),
+      );
+      expect(spyOnRecord).toHaveBeenNthCalledWith(
+        2,
+        'command',
+        'MyCommand',
+        CommandFailedException.errorCodes.INTERNAL_HANDLER_ERROR,
+        expect.any(Number),
+      );
+    });
+
+    it('should invalidate cached queries after the command execution', async () => {
+      // Arrange
+      @Query()
+      class GetUser {}
+      @Command({ invalidates: ['users', GetUser] })
+      class MyCommand {}
+      const queryCache = new InMemoryQueryCache();
+      const spyOnInvalidate = jest.spyOn(queryCache, 'invalidate');
+      spyOnExecute = jest.spyOn(commandBus, 'execute').mockResolvedValue(42);
+      factory = new CommandFactory(logger, commandBus, {}, queryCache);
+      // Act
+      await factory.create(MyCommand).execute();
+      // Assert
+      expect(spyOnInvalidate).toHaveBeenCalledWith(['users', 'GetUser']);
+    });
+
+    it('should not invalidate cached queries after a failure', async () => {
+      // Arrange
+      @Command({ invalidates: ['users'] })
+      class MyCommand {}
+      const queryCache = new InMemoryQueryCache();
+      const spyOnInvalidate = jest.spyOn(queryCache, 'invalidate');
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockRejectedValue(new Error('Custom error'));
+      factory = new CommandFactory(logger, commandBus, {}, queryCache);
+      // Act
+      const act = () => factory.create(MyCommand).execute();
+      // Assert
+      await expect(act).rejects.toThrow(CommandFailedException);
+      expect(spyOnInvalidate).not.toHaveBeenCalled();
+    });
+
+    it('should fail with the invalid result code for an invalid command result', async () => {
+      // Arrange
+      class CreatedUser {
+        @IsString()
+        public id!: string;
+      }
+      @Command({ returns: CreatedUser })
+      class MyCommand {}
+      spyOnExecute = jest
+        .spyOn(commandBus, 'execute')
+        .mockResolvedValue({ id: 42 });
+      // Act
+      const act = factory.create(MyCommand).execute();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: CommandFailedException.errorCodes.INVALID_RESULT,
+        }),
+      );
+    });
+
+    describe('error mappings', () => {
+      class UserNotFoundError extends Error {}
+
+      class DeleteUserException extends CommandFailedException<object> {
+        public static errorCodes = {
+          ...CommandFailedException.errorCodes,
+          USER_NOT_FOUND: 'USER_NOT_FOUND',
+        };
+
+        public static UserNotFound(command: object, error: Error) {
+          return new this(
+            this.errorCodes.USER_NOT_FOUND,
+            command,
+            'User not found!',
+            error,
+          );
+        }
+      }
+
+      it('should map an error class to a static factory of the exception', async () => {
+        // Arrange
+        @Command({
+          throws: DeleteUserException,
+          maps: [{ error: UserNotFoundError, to: 'UserNotFound' }],
+        })
+        class DeleteUser {}
+        const error = new UserNotFoundError();
+        spyOnExecute = jest
+          .spyOn(commandBus, 'execute')
+          .mockRejectedValue(error);
+        // Act
+        const act = () => factory.create(DeleteUser).execute();
+        // Assert
+        await expect(act).rejects.toEqual(
+          expect.objectContaining({
+            code: DeleteUserException.errorCodes.USER_NOT_FOUND,
+            origError: error,
+          }),
+        );
+      });
+
+      it('should map an error matched by a predicate', async () => {
+        // Arrange
+        @Command({
+          throws: DeleteUserException,
+          maps: [
+            {
+              error: (error) => (error as Error).message === 'Not found',
+              to: (command, error) =>
+                DeleteUserException.UserNotFound(command, error),
+            },
+          ],
+        })
+        class DeleteUser {}
+        spyOnExecute = jest
+          .spyOn(commandBus, 'execute')
+          .mockRejectedValue(new Error('Not found'));
+        // Act
+        const act = () => factory.create(DeleteUser).execute();
+        // Assert
+        await expect(act).rejects.toEqual(
+          expect.objectContaining({ code: 'USER_NOT_FOUND' }),
+        );
+      });
+
+      it('should map an error by the global mappings', async () => {
+        // Arrange
+        @Command({ throws: DeleteUserException })
+        class DeleteUser {}
+        spyOnExecute = jest
+          .spyOn(commandBus, 'execute')
+          .mockRejectedValue(new UserNotFoundError());
+        factory = new CommandFactory(logger, commandBus, {
+          errorMappings: [{ error: UserNotFoundError, to: 'UserNotFound' }],
+        });
+        // Act
+        const act = () => factory.create(DeleteUser).execute();
+        // Assert
+        await expect(act).rejects.toEqual(
+          expect.objectContaining({ code: 'USER_NOT_FOUND' }),
+        );
+      });
+
+      it('should skip a global mapping to a factory the exception does not declare', async () => {
+        // Arrange
+        @Command()
+        class DeleteUser {}
+        spyOnExecute = jest
+          .spyOn(commandBus, 'execute')
+          .mockRejectedValue(new UserNotFoundError());
+        factory = new CommandFactory(logger, commandBus, {
+          errorMappings: [{ error: UserNotFoundError, to: 'UserNotFound' }],
+        });
+        // Act
+        const act = () => factory.create(DeleteUser).execute();
+        // Assert
+        await expect(act).rejects.toEqual(
+          expect.objectContaining({
+            code: CommandFailedException.errorCodes.INTERNAL_HANDLER_ERROR,
+          }),
+        );
+      });
+
+      it('should prefer the mappings of the operation', async () => {
+        // Arrange
+        @Command({
+          throws: DeleteUserException,
+          maps: [{ error: UserNotFoundError, to: 'UserNotFound' }],
+        })
+        class DeleteUser {}
+        spyOnExecute = jest
+          .spyOn(commandBus, 'execute')
+          .mockRejectedValue(new UserNotFoundError());
+        factory = new CommandFactory(logger, commandBus, {
+          errorMappings: [{ error: Error, to: 'InternalHandlerError' }],
+        });
+        // Act
+        const act = () => factory.create(DeleteUser).execute();
+        // Assert
+        await expect(act).rejects.toEqual(
+          expect.objectContaining({ code: 'USER_NOT_FOUND' }),
+        );
+      });
+    });
+  });
+
+  describe('(Unit) QueryFactory', () => {
+    let queryBus: QueryBus;
+    let logger: QueryLogger;
+    let factory: QueryFactory;
+    let spyOnExecute: jest.SpyInstance;
+    let spyOnLogQueryExecuted: jest.SpyInstance;
+    let spyOnLogQueryFailed: jest.SpyInstance;
+
+    beforeEach(() => {
+      queryBus = mock<QueryBus>();
+      logger = mock<QueryLogger>();
+      factory = new QueryFactory(
+        logger,
+        queryBus,
+        {},
+        new InMemoryQueryCache(),
+      );
+    });
+
+    afterEach(() => {
+      if (spyOnExecute) {
+        spyOnExecute.mockRestore();
+      }
+      if (spyOnLogQueryExecuted) {
+        spyOnLogQueryExecuted.mockRestore();
+      }
+      if (spyOnLogQueryFailed) {
+        spyOnLogQueryFailed.mockRestore();
+      }
+    });
+
+    it('should fail to build a query without @Query decorator', async () => {
+      // Arrange
+      class TestQuery {}
+      // Act
+      const act = () => factory.create(TestQuery);
+      // Assert
+      expect(act).toThrow(TypeError);
+    });
+
+    it('should automatically expose setter methods from the query properties', async () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public name!: string;
+        public age!: number;
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const query = await builder.name('John').age(30).build();
+      // Assert
+      expect(query).toEqual({ name: 'John', age: 30 });
+    });
+
+    it('should return a query property value', () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public name!: string;
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const value = builder.name('John').name();
+      // Assert
+      expect(value).toBe('John');
+    });
+
+    it('should return a default value for a query property', () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public name = 'John';
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const value = builder.name();
+      // Assert
+      expect(value).toBe('John');
+    });
+
+    it('should run a validation on a query property', async () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        @MaxLength(5)
+        public name!: string;
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const act = builder.name('JohnJohn').build();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: QueryFailedException.errorCodes.INVALID_OPERATION,
+        }),
+      );
+    });
+
+    it('should wrap the validation error as aggregate error and expose it on the exception', async () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        @MaxLength(5)
+        public name!: string;
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const act = builder.name('JohnJohn').build();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          origError: expect.objectContaining({
+            errors: expect.arrayContaining([
+              expect.objectContaining({
+                property: 'name',
+                constraints: {
+                  maxLength:
+                    'name must be shorter than or equal to 5 characters',
+                },
+              }),
+            ]),
+          }),
+        }),
+      );
+    });
+
+    it('should apply custom property transformation', async () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        @Transform(({ value }) =>
+          typeof value === 'string' ? value.toUpperCase() : value,
+        )
+        public name!: string;
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const query = await builder.name('John').build();
+      // Assert
+      expect(query).toEqual({ name: 'JOHN' });
+    });
+
+    it('should clear the mutated query state', () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public name!: string;
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const name = builder.name('John').clear().name();
+      // Assert
+      expect(name).toBeUndefined();
+    });
+
+    it('should clear the mutated state to default value', () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public name = 'John';
+      }
+
+      const builder = factory.create(MyQuery);
+      // Act
+      const name = builder.name('Jane').clear().name();
+      // Assert
+      expect(name).toBe('John');
+    });
+
+    it('should accept an object for nested property', () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public nested!: {
+          name: string;
+        };
+      }
+      const builder = factory.create(MyQuery);
+      // Act
+      builder.nested({ name: 'John' });
+      // Assert
+      expect(builder.nested()).toEqual({ name: 'John' });
+    });
+
+    it('should support setting items into an array property', () => {
+      // Arrange
+      @Query()
+      class MyQuery {
+        public names!: string[];
+      }
+      const builder = factory.create(MyQuery);
+      // Act
+      builder.names(['John', 'Jane']);
+      // Assert
+      expect(builder.names()).toEqual(['John', 'Jane']);
+    });
+
+    it('should execute a query handler', async () => {
+      // Arrange
+      const result = 42;
+      @Query()
+      class MyQuery {
+        public name!: string;
+      }
+      spyOnExecute = jest.spyOn(queryBus, 'execute').mockResolvedValue(result);
+      // Act
+      const actual = await factory.create(MyQuery).name('John').execute();
+
+      // Assert
+      expect(actual).toBe(result);
+    });
+
+    it('should fail if the handler does not exits', async () => {
+      // Arrange
+      @Query()
+      class MyQuery {}
+      spyOnExecute = jest
+        .spyOn(queryBus, 'execute')
+        .mockRejectedValue(new QueryHandlerNotFoundException(MyQuery.name));
+      // Act
+      const act = () => factory.create(MyQuery).execute();
+      // Assert
+      await expect(act).rejects.toThrow(QueryFailedException);
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: QueryFailedException.errorCodes.HANDLER_NOT_FOUND,
+          origError: expect.any(QueryHandlerNotFoundException),
+        }),
+      );
+    });
+
+    it('should catch custom error in query handler into internal handler error', async () => {
+      // Arrange
+      @Query()
+      class TestQuery {}
+      const customError = new Error('Custom error');
+      spyOnExecute = jest
+        .spyOn(queryBus, 'execute')
+        .mockRejectedValue(customError);
+      // Act
+      const act = () => factory.create(TestQuery).execute();
+      // Assert
+      await expect(act).rejects.toThrow(
+        expect.objectContaining({
+          code: QueryFailedException.errorCodes.INTERNAL_HANDLER_ERROR,
+          origError: customError,
+        }),
+      );
+    });
+
+    it('should let pass a child of QueryFailedException', async () => {
       // Arrange
       @Query()
       class TestQuery {}
@@ -687,6 +1678,7 @@ describe('(Unit) OperationFactory', () => {
       expect(spyOnLogQueryExecuted).toHaveBeenCalledWith(
         'MyQuery',
         expect.any(Number),
+        { attempts: 1, operation: expect.any(MyQuery), result, execution },
       );
     });
 
@@ -711,7 +1703,317 @@ describe('(Unit) OperationFactory', () => {
           origError: customError,
         }),
         expect.any(Number),
+        { attempts: 1, operation: expect.any(MyQuery), execution },
+      );
+    });
+
+    it('should serve a repeated query from the cache', async () => {
+      // Arrange
+      @Query({ cache: { ttl: 1000 } })
+      class MyQuery {
+        public id!: string;
+      }
+      spyOnExecute = jest
+        .spyOn(queryBus, 'execute')
+        .mockResolvedValueOnce('John')
+        .mockResolvedValueOnce('Jane');
+      // Act
+      const first = await factory.create(MyQuery).id('1').execute();
+      const second = await factory.create(MyQuery).id('1').execute();
+      // Assert
+      expect(first).toBe('John');
+      expect(second).toBe('John');
+      expect(spyOnExecute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache the query results without a query cache', async () => {
+      // Arrange
+      @Query({ cache: { ttl: 1000 } })
+      class MyQuery {}
+      spyOnExecute = jest.spyOn(queryBus, 'execute').mockResolvedValue('John');
+      factory = new QueryFactory(logger, queryBus);
+      // Act
+      await factory.create(MyQuery).execute();
+      await factory.create(MyQuery).execute();
+      // Assert
+      expect(spyOnExecute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache queries with different payloads separately', async () => {
+      // Arrange
+      @Query({ cache: { ttl: 1000 } })
+      class MyQuery {
+        public id!: string;
+      }
+      spyOnExecute = jest
+        .spyOn(queryBus, 'execute')
+        .mockResolvedValueOnce('John')
+        .mockResolvedValueOnce('Jane');
+      // Act
+      await factory.create(MyQuery).id('1').execute();
+      const second = await factory.create(MyQuery).id('2').execute();
+      // Assert
+      expect(second).toBe('Jane');
+    });
+
+    it('should log a cache hit and miss', async () => {
+      // Arrange
+      @Query({ cache: { ttl: 1000, key: (query: MyQuery) => query.id } })
+      class MyQuery {
+        public id!: string;
+      }
+      spyOnExecute = jest.spyOn(queryBus, 'execute').mockResolvedValue('John');
+      spyOnLogQueryExecuted = jest.spyOn(logger, 'logSuccess');
+      // Act
+      await factory.create(MyQuery).id('1').execute();
+      await factory.create(MyQuery).id('1').execute();
+      // Assert
+      expect(spyOnLogQueryExecuted).toHaveBeenNthCalledWith(
+        1,
+        'MyQuery',
+        expect.any(Number),
+        {
+          attempts: 1,
+          cache: 'miss',
+          operation: expect.any(MyQuery),
+          result: 'John',
+          execution,
+        },
+      );
+      expect(spyOnLogQueryExecuted).toHaveBeenNthCalledWith(
+        2,
+        'MyQuery',
+        expect.any(Number),
+        {
+          attempts: 0,
+          cache: 'hit',
+          operation: expect.any(MyQuery),
+          result: 'John',
+          execution,
+        },
       );
     });
+
+    it('should execute the query again after the cache invalidation', async () => {
+      // Arrange
+      @Query({ cache: { ttl: 1000, tags: ['users'] } })
+      class MyQuery {}
+      const queryCache = new InMemoryQueryCache();
+      spyOnExecute = jest.spyOn(queryBus, 'execute').mockResolvedValue('John');
+      factory = new QueryFactory(logger, queryBus, {}, queryCache);
+      await factory.create(MyQuery).execute();
+      // Act
+      await queryCache.invalidate(['users']);
+      await factory.create(MyQuery).execute();
+      // Assert
+      expect(spyOnExecute).toHaveBeenCalledTimes(2);
+    });
+
+    describe('result validation', () => {
+      class UserResult {
+        @IsString()
+        public name!: string;
+      }
+
+      it('should transform the result into the returns class', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 'John' });
+        // Act
+        const result = await factory.create(MyQuery).execute();
+        // Assert
+        expect(result).toBeInstanceOf(UserResult);
+        expect(result).toEqual({ name: 'John' });
+      });
+
+      it('should validate each item of an array result', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue([{ name: 'John' }, { name: 42 }]);
+        // Act
+        const act = () => factory.create(MyQuery).execute();
+        // Assert
+        await expect(act()).rejects.toThrow(
+          expect.objectContaining({
+            code: QueryFailedException.errorCodes.INVALID_RESULT,
+          }),
+        );
+        await expect(
+          act().catch((error: QueryFailedException) =>
+            error.getResultValidationErrors(),
+          ),
+        ).resolves.toEqual([
+          expect.objectContaining({ path: '[1].name', constraint: 'isString' }),
+        ]);
+      });
+
+      it('should fail with the invalid result code in the strict mode', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 42 });
+        spyOnLogQueryFailed = jest.spyOn(logger, 'logFailure');
+        // Act
+        const act = factory.create(MyQuery).execute();
+        // Assert
+        await expect(act).rejects.toThrow(QueryFailedException);
+        await expect(act).rejects.toThrow(
+          expect.objectContaining({
+            code: QueryFailedException.errorCodes.INVALID_RESULT,
+          }),
+        );
+        expect(spyOnLogQueryFailed).toHaveBeenCalledWith(
+          expect.objectContaining({ code: 'INVALID_RESULT' }),
+          expect.any(Number),
+          expect.any(Object),
+        );
+      });
+
+      it('should log a warning and return the result in the lenient mode', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 42 });
+        factory = new QueryFactory(logger, queryBus, {
+          resultValidation: 'lenient',
+        });
+        const spyOnLogInvalidResult = jest.spyOn(logger, 'logInvalidResult');
+        // Act
+        const result = await factory.create(MyQuery).execute();
+        // Assert
+        expect(result).toEqual({ name: 42 });
+        expect(spyOnLogInvalidResult).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: QueryFailedException.errorCodes.INVALID_RESULT,
+          }),
+          { operation: expect.any(MyQuery), execution },
+        );
+      });
+
+      it('should accept an invalid result with a logger without the invalid result log', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 42 });
+        const partialLogger = { logFailure: jest.fn(), logSuccess: jest.fn() };
+        factory = new QueryFactory(
+          partialLogger as unknown as QueryLogger,
+          queryBus,
+          { resultValidation: 'lenient' },
+        );
+        // Act
+        const result = await factory.create(MyQuery).execute();
+        // Assert
+        expect(result).toEqual({ name: 42 });
+        expect(partialLogger.logSuccess).toHaveBeenCalled();
+      });
+
+      it('should validate the results with the result validator options', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {
+          @IsString()
+          public filter = 'all';
+        }
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 'John', email: 'john@doe.com' });
+        factory = new QueryFactory(logger, queryBus, {
+          validatorOptions: { whitelist: true, forbidNonWhitelisted: true },
+        });
+        const strictFactory = new QueryFactory(logger, queryBus, {
+          resultValidatorOptions: {
+            whitelist: true,
+            forbidNonWhitelisted: true,
+          },
+        });
+        // Act
+        const result = await factory.create(MyQuery).execute();
+        const act = strictFactory.create(MyQuery).execute();
+        // Assert
+        expect(result).toEqual({ name: 'John', email: 'john@doe.com' });
+        await expect(act).rejects.toThrow(
+          expect.objectContaining({
+            code: QueryFailedException.errorCodes.INVALID_RESULT,
+          }),
+        );
+      });
+
+      it('should transform the results with the result transform options', async () => {
+        // Arrange
+        @Query({ returns: UserResult })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 'John' });
+        factory = new QueryFactory(logger, queryBus, {
+          transformOptions: { excludeExtraneousValues: true },
+        });
+        const strictFactory = new QueryFactory(logger, queryBus, {
+          resultTransformOptions: { excludeExtraneousValues: true },
+        });
+        // Act
+        const result = await factory.create(MyQuery).execute();
+        const act = strictFactory.create(MyQuery).execute();
+        // Assert
+        expect(result).toEqual({ name: 'John' });
+        await expect(act).rejects.toThrow(
+          expect.objectContaining({
+            code: QueryFailedException.errorCodes.INVALID_RESULT,
+          }),
+        );
+      });
+
+      it('should prefer the result validation mode of the decorator', async () => {
+        // Arrange
+        @Query({ returns: UserResult, resultValidation: 'strict' })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValue({ name: 42 });
+        factory = new QueryFactory(logger, queryBus, {
+          resultValidation: 'lenient',
+        });
+        // Act
+        const act = factory.create(MyQuery).execute();
+        // Assert
+        await expect(act).rejects.toThrow(
+          expect.objectContaining({
+            code: QueryFailedException.errorCodes.INVALID_RESULT,
+          }),
+        );
+      });
+
+      it('should not cache an invalid result', async () => {
+        // Arrange
+        @Query({ returns: UserResult, cache: { ttl: 1000 } })
+        class MyQuery {}
+        spyOnExecute = jest
+          .spyOn(queryBus, 'execute')
+          .mockResolvedValueOnce({ name: 42 })
+          .mockResolvedValueOnce({ name: 'John' });
+        await factory
+          .create(MyQuery)
+          .execute()
+          .catch(() => undefined);
+        // Act
+        const result = await factory.create(MyQuery).execute();
+        // Assert
+        expect(result).toEqual({ name: 'John' });
+        expect(spyOnExecute).toHaveBeenCalledTimes(2);
+      });
+    });
   });
 });
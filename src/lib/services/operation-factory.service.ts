@@ -1,58 +1,137 @@
 import { Constructor } from 'type-fest';
 import {
+  CommandBuilder,
+  CommandBuilderBase,
   OperationBuilder,
   OperationBuilderBase,
   OperationBuilderLogger,
   OperationExecutor,
+  QueryBuilder,
+  QueryBuilderBase,
 } from './operation-builder.service';
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { CommandBus, QueryBus } from '@nestjs/cqrs';
 import { CommandLogger, QueryLogger } from './operation-logger.service';
+import { Command, Operation, Query } from '../decorators';
+import {
+  DEFAULT_OPERATION_MIDDLEWARES,
+  OperationMiddleware,
+} from '../middlewares';
+import {
+  CQRS_FACTORY_MODULE_OPTIONS,
+  CqrsFactoryModuleOptions,
+} from '../cqrs-module.options';
+import { IdempotencyStore, InMemoryIdempotencyStore } from '../idempotency';
+import { QueryCache } from '../cache';
+import { CqrsMetrics } from '../metrics/cqrs.metrics';
+import { ExceptionFactoryOf, ResultOf } from '../results/returns';
 import { OperationFailedExceptionFactory } from '../exceptions';
-import { Command, Query } from '../decorators';
 
 abstract class OperationFactory {
+  private middlewares: OperationMiddleware[] = [];
+
+  // Factories created outside of the module cache the query results only if
+  // a cache is given, so commands and queries never use separate caches.
+  protected readonly queryCache?: QueryCache;
+
   constructor(
     private logger: OperationBuilderLogger<any, any>,
     private operationExecutor: OperationExecutor<any, any>,
-  ) {}
+    private options: CqrsFactoryModuleOptions = {},
+    queryCache?: QueryCache,
+    private metrics?: CqrsMetrics,
+  ) {
+    this.queryCache = options.queryCache ?? queryCache;
+  }
+
+  protected abstract getMetadata<O extends object>(
+    operationCtor: Constructor<O>,
+  ): Operation.Metadata<any> | undefined;
 
-  protected abstract getExceptionFactory<O extends object>(
+  protected abstract createBuilder<O extends object, R>(
     operationCtor: Constructor<O>,
-  ): OperationFailedExceptionFactory<O, any> | undefined;
+  ): OperationBuilderBase<O, R, any>;
 
-  public create<O extends object, R>(operationCtor: Constructor<O>) {
-    const exceptionFactory = this.getExceptionFactory(operationCtor);
+  /**
+   * Registers middlewares wrapping all operations created by this factory.
+   * They run after the global middlewares and before the middlewares
+   * declared on the operation itself.
+   */
+  public use(...middlewares: OperationMiddleware[]): this {
+    this.middlewares.push(...middlewares);
+    return this;
+  }
 
-    if (!exceptionFactory) {
+  public create<
+    O extends object,
+    R = ResultOf<O>,
+    E extends OperationFailedExceptionFactory<any, any> = ExceptionFactoryOf<
+      O,
+      OperationFailedExceptionFactory<O>
+    >,
+  >(operationCtor: Constructor<O>): OperationBuilder<O, R, object, E> {
+    const metadata = this.getMetadata(operationCtor);
+
+    if (!metadata) {
       throw new TypeError(
         'Missing exception factory. Did you forget to decorate the operation ' +
           'with a corresponding decorator @Command or @Query?',
       );
     }
-    const builderBase = new OperationBuilderBase<O, R, any>(operationCtor);
+    const builderBase = this.createBuilder<O, R>(operationCtor);
     builderBase.setExecutor(this.operationExecutor);
-    builderBase.setLogger(this.logger);
-    builderBase.setExceptionFactory(exceptionFactory);
-
-    const builderProxy = new Proxy<OperationBuilder<O, R>>(builderBase as any, {
-      get(target: any, prop: string | symbol) {
-        return (...args: unknown[]) => {
-          if (prop in target) {
-            const result = Reflect.apply(target[prop], target, args);
-
-            return result === builderBase ? builderProxy : result;
-          } else {
-            if (args.length === 0) {
-              return builderBase.get(prop as keyof O);
-            } else {
-              builderBase.set(prop as keyof O, args[0] as O[keyof O]);
+    builderBase.setMetadata(metadata);
+    builderBase.setExceptionFactory(metadata.exceptionFactory);
+    builderBase.setExecutionTimeout(metadata.timeout ?? this.options.timeout);
+    builderBase.setMiddlewares([
+      ...(this.options.middlewares ?? DEFAULT_OPERATION_MIDDLEWARES),
+      ...this.middlewares,
+      ...(metadata.middlewares ?? []),
+    ]);
+    builderBase.setErrorMappings([
+      ...(metadata.maps ?? []),
+      ...(this.options.errorMappings ?? []),
+    ]);
+    builderBase.setValidatorOptions(this.options.validatorOptions);
+    builderBase.setResultValidatorOptions(this.options.resultValidatorOptions);
+    builderBase.setResultTransformOptions(this.options.resultTransformOptions);
+    builderBase.setTransformOptions(this.options.transformOptions);
+    builderBase.setResultValidation(
+      metadata.resultValidation ?? this.options.resultValidation,
+    );
+    builderBase.setMetrics(this.metrics);
+    builderBase.setTracer(this.options.tracer);
+
+    if (this.options.logger !== false) {
+      builderBase.setLogger(this.logger);
+    }
+
+    const steps = (builderBase.constructor as typeof OperationBuilderBase)
+      .steps;
+    const builderProxy = new Proxy<OperationBuilder<O, R, object, E>>(
+      builderBase as any,
+      {
+        get(target: any, prop: string | symbol) {
+          return (...args: unknown[]) => {
+            if (prop === 'signal' && args[0] instanceof AbortSignal) {
+              builderBase.setSignal(args[0]);
               return builderProxy;
+            } else if (typeof prop === 'string' && steps.includes(prop)) {
+              const result = Reflect.apply(target[prop], target, args);
+
+              return result === builderBase ? builderProxy : result;
+            } else {
+              if (args.length === 0) {
+                return builderBase.get(prop as keyof O);
+              } else {
+                builderBase.set(prop as keyof O, args[0] as O[keyof O]);
+                return builderProxy;
+              }
             }
-          }
-        };
+          };
+        },
       },
-    });
+    );
 
     return builderProxy;
   }
@@ -60,30 +139,102 @@ abstract class OperationFactory {
 
 @Injectable()
 export class CommandFactory extends OperationFactory {
-  constructor(logger: CommandLogger, commandBus: CommandBus) {
-    super(logger, commandBus);
+  private readonly idempotencyStore: IdempotencyStore;
+
+  constructor(
+    logger: CommandLogger,
+    commandBus: CommandBus,
+    @Optional()
+    @Inject(CQRS_FACTORY_MODULE_OPTIONS)
+    options: CqrsFactoryModuleOptions = {},
+    @Optional() queryCache?: QueryCache,
+    @Optional() metrics?: CqrsMetrics,
+    @Optional() idempotencyStore?: IdempotencyStore,
+  ) {
+    super(
+      logger,
+      options.commandExecutor ?? commandBus,
+      options,
+      queryCache,
+      metrics,
+    );
+
+    this.idempotencyStore =
+      options.idempotencyStore ??
+      idempotencyStore ??
+      new InMemoryIdempotencyStore();
+  }
+
+  public create<
+    O extends object,
+    R = ResultOf<O>,
+    E extends OperationFailedExceptionFactory<any, any> = ExceptionFactoryOf<
+      O,
+      Command.ExceptionFactory<O>
+    >,
+  >(operationCtor: Constructor<O>): CommandBuilder<O, R, E> {
+    return super.create<O, R, E>(operationCtor) as CommandBuilder<O, R, E>;
+  }
+
+  protected createBuilder<O extends object, R>(
+    operationCtor: Constructor<O>,
+  ): CommandBuilderBase<O, R, any> {
+    return new CommandBuilderBase<O, R, any>(operationCtor)
+      .setIdempotencyStore(this.idempotencyStore)
+      .setQueryCache(this.queryCache);
   }
 
-  protected getExceptionFactory<O extends object>(
+  protected getMetadata<O extends object>(
     operationCtor: Constructor<O>,
-  ): OperationFailedExceptionFactory<O, any> | undefined {
-    return Command.metadata.get(operationCtor)?.exceptionFactory as
-      | Command.ExceptionFactory<O>
-      | undefined;
+  ): Command.Metadata<Command.ExceptionFactory<O>> | undefined {
+    return Command.metadata.get(operationCtor) as
+      Command.Metadata<Command.ExceptionFactory<O>> | undefined;
   }
 }
 
 @Injectable()
 export class QueryFactory extends OperationFactory {
-  constructor(logger: QueryLogger, queryBus: QueryBus) {
-    super(logger, queryBus);
+  constructor(
+    logger: QueryLogger,
+    queryBus: QueryBus,
+    @Optional()
+    @Inject(CQRS_FACTORY_MODULE_OPTIONS)
+    options: CqrsFactoryModuleOptions = {},
+    @Optional() queryCache?: QueryCache,
+    @Optional() metrics?: CqrsMetrics,
+  ) {
+    super(
+      logger,
+      options.queryExecutor ?? queryBus,
+      options,
+      queryCache,
+      metrics,
+    );
+  }
+
+  public create<
+    O extends object,
+    R = ResultOf<O>,
+    E extends OperationFailedExceptionFactory<any, any> = ExceptionFactoryOf<
+      O,
+      Query.ExceptionFactory<O>
+    >,
+  >(operationCtor: Constructor<O>): QueryBuilder<O, R, E> {
+    return super.create<O, R, E>(operationCtor);
+  }
+
+  protected createBuilder<O extends object, R>(
+    operationCtor: Constructor<O>,
+  ): QueryBuilderBase<O, R, any> {
+    return new QueryBuilderBase<O, R, any>(operationCtor).setQueryCache(
+      this.queryCache,
+    );
   }
 
-  protected getExceptionFactory<O extends object>(
+  protected getMetadata<O extends object>(
     operationCtor: Constructor<O>,
-  ): OperationFailedExceptionFactory<O, any> | undefined {
-    return Query.metadata.get(operationCtor)?.exceptionFactory as
-      | Query.ExceptionFactory<O>
-      | undefined;
+  ): Query.Metadata<Query.ExceptionFactory<O>> | undefined {
+    return Query.metadata.get(operationCtor) as
+      Query.Metadata<Query.ExceptionFactory<O>> | undefined;
   }
 }
@@ -1,7 +1,12 @@
+import { MinLength, ValidationError } from 'class-validator';
+import { Exclude } from 'class-transformer';
 import { mock } from 'jest-mock-extended';
 import { Logger } from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
 import { CommandLogger, QueryLogger } from './operation-logger.service';
+import { CommandFactory } from './operation-factory.service';
 import { CommandFailedException, QueryFailedException } from '../exceptions';
+import { Command, Query, Sensitive } from '../decorators';
 
 describe('(Unit) Operation Logger', () => {
   describe('(Unit) CommandLogger', () => {
@@ -12,6 +17,30 @@ describe('(Unit) Operation Logger', () => {
         // Assert
         expect(queryLogger.logger).toBeInstanceOf(Logger);
       });
+
+      it('should use a logger instance from the module options', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        // Act
+        const commandLogger = new CommandLogger(undefined, { logger });
+        // Assert
+        expect(commandLogger.logger).toBe(logger);
+      });
+
+      it('should instantiate a logger class with the configured context', () => {
+        // Arrange
+        class CustomLogger extends Logger {}
+        // Act
+        const commandLogger = new CommandLogger(undefined, {
+          logger: CustomLogger,
+          loggerContext: 'custom',
+        });
+        // Assert
+        expect(commandLogger.logger).toBeInstanceOf(CustomLogger);
+        expect((commandLogger.logger as CustomLogger)['context']).toBe(
+          'custom',
+        );
+      });
     });
 
     describe('#logSuccess()', () => {
@@ -50,6 +79,223 @@ describe('(Unit) Operation Logger', () => {
           }),
         );
       });
+      it('should not log the payload by default', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Command()
+        class TestCommand {
+          public name = 'John';
+        }
+        const commandLogger = new CommandLogger(logger);
+        // Act
+        commandLogger.logSuccess('TestCommand', 100, {
+          operation: new TestCommand(),
+          result: 42,
+        });
+        // Assert
+        expect(logger.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: {
+              kind: 'command',
+              name: 'TestCommand',
+              type: 'success',
+              duration: 100,
+            },
+          }),
+        );
+      });
+
+      it('should log the serialized payload without excluded and sensitive values', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Command()
+        class TestCommand {
+          public name = 'John';
+          @Exclude()
+          public internal = 'internal';
+          @Sensitive()
+          public password = 'hunter2';
+        }
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logPayload: true,
+        });
+        // Act
+        commandLogger.logSuccess('TestCommand', 100, {
+          operation: new TestCommand(),
+        });
+        // Assert
+        expect(logger.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({
+              payload: { name: 'John', password: '[REDACTED]' },
+            }),
+          }),
+        );
+      });
+
+      it('should log a truncated result summary', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Command()
+        class TestCommand {}
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logResult: true,
+          logResultMaxLength: 10,
+        });
+        // Act
+        commandLogger.logSuccess('TestCommand', 100, {
+          operation: new TestCommand(),
+          result: { name: 'John Doe' },
+        });
+        // Assert
+        expect(logger.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({ result: '{"name":"J...' }),
+          }),
+        );
+      });
+
+      it('should let the operation opt out of the payload logging', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Command({ log: { payload: false, result: true } })
+        class TestCommand {
+          public name = 'John';
+        }
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logPayload: true,
+        });
+        // Act
+        commandLogger.logSuccess('TestCommand', 100, {
+          operation: new TestCommand(),
+          result: 42,
+        });
+        // Assert
+        expect(logger.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: {
+              kind: 'command',
+              name: 'TestCommand',
+              type: 'success',
+              duration: 100,
+              result: '42',
+            },
+          }),
+        );
+      });
+      it('should log the execution ids', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        const commandLogger = new CommandLogger(logger);
+        // Act
+        commandLogger.logSuccess('TestCommand', 100, {
+          execution: {
+            operationId: 'operation-2',
+            correlationId: 'request-1',
+            causationId: 'operation-1',
+            depth: 1,
+          },
+        });
+        // Assert
+        expect(logger.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: {
+              kind: 'command',
+              name: 'TestCommand',
+              type: 'success',
+              duration: 100,
+              operationId: 'operation-2',
+              correlationId: 'request-1',
+              causationId: 'operation-1',
+              depth: 1,
+            },
+          }),
+        );
+      });
+
+      it('should log the success with the configured level', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logLevels: { success: 'debug' },
+        });
+        // Act
+        commandLogger.logSuccess('TestCommand', 100);
+        // Assert
+        expect(logger.log).not.toHaveBeenCalled();
+        expect(logger.debug).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({ type: 'success' }),
+          }),
+        );
+      });
+
+      it('should skip the successes outside of the sample rate', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logSuccessSampleRate: 0.5,
+        });
+        const spyOnRandom = jest
+          .spyOn(Math, 'random')
+          .mockReturnValueOnce(0.7)
+          .mockReturnValueOnce(0.2);
+        // Act
+        commandLogger.logSuccess('TestCommand', 100);
+        commandLogger.logSuccess('TestCommand', 100);
+        // Assert
+        expect(logger.log).toHaveBeenCalledTimes(1);
+        spyOnRandom.mockRestore();
+      });
+
+      it('should warn about a success slower than the threshold', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          slowThresholdMs: 50,
+          logSuccessSampleRate: 0,
+        });
+        // Act
+        commandLogger.logSuccess('TestCommand', 100);
+        // Assert
+        expect(logger.log).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith({
+          message:
+            'Command "TestCommand" succeeded in 100ms exceeding ' +
+            'the slow threshold of 50ms',
+          cqrs: {
+            kind: 'command',
+            name: 'TestCommand',
+            type: 'slow',
+            duration: 100,
+            threshold: 50,
+          },
+        });
+      });
+
+      it('should prefer the slow threshold of the decorator', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Command({ slowThresholdMs: 200 })
+        class TestCommand {}
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          slowThresholdMs: 50,
+        });
+        // Act
+        commandLogger.logSuccess('TestCommand', 100, {
+          operation: new TestCommand(),
+        });
+        // Assert
+        expect(logger.warn).not.toHaveBeenCalled();
+        expect(logger.log).toHaveBeenCalled();
+      });
     });
 
     describe('#logFailure()', () => {
@@ -108,6 +354,228 @@ describe('(Unit) Operation Logger', () => {
           }),
         );
       });
+
+      it('should log the validation errors of an invalid command', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        class TestCommand {}
+        const commandLogger = new CommandLogger(logger);
+        const exception = CommandFailedException.InvalidOperation(
+          new TestCommand(),
+          [
+            {
+              property: 'email',
+              value: 'john',
+              constraints: { isEmail: 'email must be an email' },
+            } as ValidationError,
+          ],
+        );
+        // Act
+        commandLogger.logFailure(exception, 100);
+        // Assert
+        expect(logger.error).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({
+              validationErrors: [
+                {
+                  path: 'email',
+                  constraint: 'isEmail',
+                  message: 'email must be an email',
+                  value: 'john',
+                },
+              ],
+            }),
+          }),
+        );
+      });
+
+      it('should log the payload of the failed command', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Command({ log: { payload: true } })
+        class TestCommand {
+          public name = 'John';
+        }
+        const commandLogger = new CommandLogger(logger);
+        const exception = new CommandFailedException(
+          'testCode',
+          new TestCommand(),
+          'testMessage',
+        );
+        // Act
+        commandLogger.logFailure(exception, 100);
+        // Assert
+        expect(logger.error).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({ payload: { name: 'John' } }),
+          }),
+        );
+      });
+
+      it('should log an invalid command with the configured level', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        class TestCommand {}
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logLevels: { invalid: 'warn' },
+        });
+        const exception = CommandFailedException.InvalidOperation(
+          new TestCommand(),
+          [],
+        );
+        // Act
+        commandLogger.logFailure(exception, 100);
+        // Assert
+        expect(logger.error).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalled();
+      });
+
+      it('should log a command failing the validation with the configured level', async () => {
+        // Arrange
+        const logger = mock<Logger>();
+        const options = { logger, logLevels: { invalid: 'warn' as const } };
+        @Command()
+        class CreateUser {
+          @MinLength(5)
+          public name!: string;
+        }
+        const factory = new CommandFactory(
+          new CommandLogger(undefined, options),
+          mock<CommandBus>(),
+          options,
+        );
+        // Act
+        const act = () => factory.create(CreateUser).name('AA').execute();
+        // Assert
+        await expect(act).rejects.toThrow(CommandFailedException);
+        expect(logger.error).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({ errorCode: 'INVALID_COMMAND' }),
+          }),
+        );
+      });
+
+      it('should prefer the level configured for the error code', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        class TestCommand {}
+        const commandLogger = new CommandLogger(undefined, {
+          logger,
+          logLevels: {
+            failure: 'warn',
+            codes: { USER_NOT_FOUND: 'verbose', USER_EXISTS: false },
+          },
+        });
+        // Act
+        commandLogger.logFailure(
+          new CommandFailedException(
+            'USER_NOT_FOUND',
+            new TestCommand(),
+            'message',
+          ),
+          100,
+        );
+        commandLogger.logFailure(
+          new CommandFailedException(
+            'USER_EXISTS',
+            new TestCommand(),
+            'message',
+          ),
+          100,
+        );
+        commandLogger.logFailure(
+          new CommandFailedException(
+            'USER_BLOCKED',
+            new TestCommand(),
+            'message',
+          ),
+          100,
+        );
+        // Assert
+        expect(logger.verbose).toHaveBeenCalledTimes(1);
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+        expect(logger.error).not.toHaveBeenCalled();
+      });
+
+      it('should log the number of attempts', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        class TestCommand {}
+        const commandLogger = new CommandLogger(logger);
+        const exception = new CommandFailedException(
+          'testCode',
+          new TestCommand(),
+          'testMessage',
+        );
+        // Act
+        commandLogger.logFailure(exception, 100, { attempts: 3 });
+        // Assert
+        expect(logger.error).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({ attempts: 3 }),
+          }),
+        );
+      });
+    });
+
+    describe('#logInvalidResult()', () => {
+      it('should log a warning with the failed constraints of the result', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        class TestCommand {}
+        const commandLogger = new CommandLogger(logger);
+        const exception = CommandFailedException.InvalidResult(
+          new TestCommand(),
+          [
+            {
+              property: 'id',
+              value: 42,
+              constraints: { isString: 'id must be a string' },
+            } as ValidationError,
+          ],
+        );
+        // Act
+        commandLogger.logInvalidResult(exception);
+        // Assert
+        expect(logger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({
+              kind: 'command',
+              name: 'TestCommand',
+              type: 'invalid-result',
+              errorCode: 'INVALID_RESULT',
+              validationErrors: [
+                {
+                  path: 'id',
+                  constraint: 'isString',
+                  message: 'id must be a string',
+                  value: 42,
+                },
+              ],
+            }),
+          }),
+        );
+      });
+
+      it('should log with the configured level', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        class TestCommand {}
+        const commandLogger = new CommandLogger(logger, {
+          logLevels: { invalidResult: 'error' },
+        });
+        const exception = CommandFailedException.InvalidResult(
+          new TestCommand(),
+          [],
+        );
+        // Act
+        commandLogger.logInvalidResult(exception);
+        // Assert
+        expect(logger.error).toHaveBeenCalledTimes(1);
+        expect(logger.warn).not.toHaveBeenCalled();
+      });
     });
   });
 
@@ -137,6 +605,26 @@ describe('(Unit) Operation Logger', () => {
           }),
         );
       });
+      it('should log the payload of a query opted in by the decorator', () => {
+        // Arrange
+        const logger = mock<Logger>();
+        @Query({ log: { payload: true } })
+        class TestQuery {
+          public id = '1';
+        }
+        const queryLogger = new QueryLogger(logger);
+        // Act
+        queryLogger.logSuccess('TestQuery', 100, {
+          operation: new TestQuery(),
+        });
+        // Assert
+        expect(logger.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            cqrs: expect.objectContaining({ payload: { id: '1' } }),
+          }),
+        );
+      });
+
       it('should log a payload with the query and duration', () => {
         // Arrange
         const queryType = 'testQuery';
@@ -1,6 +1,72 @@
-import { Injectable, Logger, Optional } from '@nestjs/common';
-import { OperationBuilderLogger } from './operation-builder.service';
-import { OperationFailedException } from '../exceptions';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  LoggerService,
+  Optional,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { Constructor } from 'type-fest';
+import {
+  OperationBuilderLogger,
+  OperationLogDetails,
+} from './operation-builder.service';
+import {
+  OperationFailedException,
+  OperationFailedExceptionFactory,
+  OperationValidationErrorDetails,
+} from '../exceptions';
+import {
+  CQRS_FACTORY_MODULE_OPTIONS,
+  CqrsFactoryModuleOptions,
+} from '../cqrs-module.options';
+import { Command, Operation, Query } from '../decorators/operation.decorator';
+import { redactSensitive } from '../decorators/sensitive.decorator';
+
+/**
+ * A method of the `LoggerService` writing the log message, or `false` to skip
+ * the message.
+ */
+export type OperationLogLevel =
+  'log' | 'error' | 'warn' | 'debug' | 'verbose' | 'fatal' | false;
+
+/**
+ * The log levels of the operation outcomes.
+ */
+export interface OperationLogLevels {
+  /**
+   * The level of the successful executions. (Default: `log`)
+   */
+  success?: OperationLogLevel;
+  /**
+   * The level of the invalid operations. (Default: `error`)
+   */
+  invalid?: OperationLogLevel;
+  /**
+   * The level of the operations without a handler. (Default: `error`)
+   */
+  handlerNotFound?: OperationLogLevel;
+  /**
+   * The level of the unexpected handler errors. (Default: `error`)
+   */
+  internalError?: OperationLogLevel;
+  /**
+   * The level of the other failures, e.g. the domain exceptions thrown by
+   * the handlers. (Default: `error`)
+   */
+  failure?: OperationLogLevel;
+  /**
+   * The level of the invalid results accepted in the lenient result
+   * validation mode. (Default: `warn`)
+   */
+  invalidResult?: OperationLogLevel;
+  /**
+   * The levels of the failures by their error code. They take precedence
+   * over the levels above.
+   */
+  codes?: Record<string, OperationLogLevel>;
+}
+
 /**
  * The base interface for all operation log messages.
  */
@@ -14,9 +80,30 @@ export interface OperationLogMessage {
    */
   name: string;
   /**
-   * Describe the type of the log message. (Do we log a failure, or a success?)
+   * Describe the type of the log message. (Do we log a failure, a success,
+   * a success slower than the threshold, or an accepted invalid result?)
    */
-  type: 'success' | 'error';
+  type: 'success' | 'error' | 'slow' | 'invalid-result';
+  /**
+   * Describes the unique id of the operation execution.
+   * (Present only for the executed operations.)
+   */
+  operationId?: string;
+  /**
+   * Describes the id shared by all operations executed on behalf of the same
+   * request. (Present only for the executed operations.)
+   */
+  correlationId?: string;
+  /**
+   * Describes the id of the parent operation execution.
+   * (Present only for the nested operations.)
+   */
+  causationId?: string;
+  /**
+   * Describes how deep the operation is nested.
+   * (Present only for the executed operations.)
+   */
+  depth?: number;
 }
 /**
  * The interface for a successful operation log message.
@@ -26,6 +113,36 @@ export interface OperationSuccessLogMessage extends OperationLogMessage {
    * Describes the duration of the operation in milliseconds.
    */
   duration: number;
+  /**
+   * Describes how many times the operation handler was executed.
+   * (Present only if the attempts are known.)
+   */
+  attempts?: number;
+  /**
+   * Describes whether the query result was served from the cache.
+   * (Present only for cached queries.)
+   */
+  cache?: 'hit' | 'miss';
+  /**
+   * Describes the operation serialized by the class-transformer.
+   * (Present only if the payload logging is enabled.)
+   */
+  payload?: Record<string, unknown>;
+  /**
+   * Describes the truncated JSON summary of the result.
+   * (Present only if the result logging is enabled.)
+   */
+  result?: string;
+}
+
+/**
+ * The interface for a log message of a successful but slow operation.
+ */
+export interface OperationSlowLogMessage extends OperationSuccessLogMessage {
+  /**
+   * Describes the slow threshold of the operation in milliseconds.
+   */
+  threshold: number;
 }
 
 export interface OperationFailedLogMessage extends OperationLogMessage {
@@ -41,6 +158,50 @@ export interface OperationFailedLogMessage extends OperationLogMessage {
    * Describes the error message of the operation.
    */
   errorMessage: string;
+  /**
+   * Describes the failed constraints of an invalid operation or result.
+   * (Present only for invalid operations and results.)
+   */
+  validationErrors?: OperationValidationErrorDetails[];
+  /**
+   * Describes how many times the operation handler was executed.
+   * (Present only if the attempts are known.)
+   */
+  attempts?: number;
+  /**
+   * Describes whether the query result was served from the cache.
+   * (Present only for cached queries.)
+   */
+  cache?: 'hit' | 'miss';
+  /**
+   * Describes the operation serialized by the class-transformer.
+   * (Present only if the payload logging is enabled.)
+   */
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * The interface for a log message of an invalid result accepted in the
+ * lenient result validation mode.
+ */
+export interface OperationInvalidResultLogMessage extends OperationLogMessage {
+  /**
+   * Describes the error code of the result validation.
+   */
+  errorCode: string;
+  /**
+   * Describes the error message of the result validation.
+   */
+  errorMessage: string;
+  /**
+   * Describes the failed constraints of the result.
+   */
+  validationErrors: OperationValidationErrorDetails[];
+  /**
+   * Describes the operation serialized by the class-transformer.
+   * (Present only if the payload logging is enabled.)
+   */
+  payload?: Record<string, unknown>;
 }
 
 export interface OperationLog<R extends OperationLogMessage> {
@@ -50,10 +211,69 @@ export interface OperationLog<R extends OperationLogMessage> {
 
 class OperationLogger implements OperationBuilderLogger<any, any> {
   constructor(
-    public readonly logger: Logger,
+    public readonly logger: LoggerService,
     private readonly operationKind: 'command' | 'query',
+    private readonly options: CqrsFactoryModuleOptions = {},
   ) {}
 
+  /**
+   * Resolves the logger configured in the module options. A logger class
+   * is instantiated with the configured logger context.
+   */
+  public static createLogger(
+    options: CqrsFactoryModuleOptions = {},
+  ): LoggerService {
+    const context = options.loggerContext ?? 'cqrs';
+
+    if (typeof options.logger === 'function') {
+      return new options.logger(context);
+    } else if (options.logger) {
+      return options.logger;
+    } else {
+      return new Logger(context);
+    }
+  }
+
+  /**
+   * Resolves the logger of the operations. The logger and the logger context
+   * of the module options win over the injected `Logger`.
+   */
+  public static resolveLogger(
+    logger?: Logger,
+    options: CqrsFactoryModuleOptions = {},
+  ): LoggerService {
+    return logger && !options.logger && !options.loggerContext
+      ? logger
+      : OperationLogger.createLogger(options);
+  }
+
+  /**
+   * Serializes the operation with the class-transformer. The excluded
+   * properties are omitted and the sensitive ones are redacted.
+   */
+  public static serializePayload(operation: object): Record<string, unknown> {
+    return instanceToPlain(redactSensitive(operation));
+  }
+
+  /**
+   * Serializes the result to a JSON summary truncated to the given length.
+   */
+  public static summarizeResult(result: unknown, maxLength: number): string {
+    let summary: string;
+
+    try {
+      summary =
+        JSON.stringify(instanceToPlain(redactSensitive(result))) ??
+        String(result);
+    } catch {
+      summary = '[unserializable]';
+    }
+
+    return summary.length > maxLength
+      ? `${summary.slice(0, maxLength)}...`
+      : summary;
+  }
+
   /**
    * Creates a structured log message.
    *
@@ -76,14 +296,48 @@ class OperationLogger implements OperationBuilderLogger<any, any> {
     };
   }
 
-  public logSuccess(operationType: string, duration: number): void {
-    this.logger.log(
+  public logSuccess(
+    operationType: string,
+    duration: number,
+    details: OperationLogDetails = {},
+  ): void {
+    const threshold =
+      (details.operation &&
+        this.getMetadata(details.operation)?.slowThresholdMs) ??
+      this.options.slowThresholdMs;
+
+    if (threshold !== undefined && duration >= threshold) {
+      this.logger.warn(
+        this.createLogMessage<OperationSlowLogMessage>(
+          `"${operationType}" succeeded in ${duration}ms exceeding ` +
+            `the slow threshold of ${threshold}ms`,
+          {
+            name: operationType,
+            type: 'slow',
+            duration,
+            threshold,
+            ...this.createDetailsPayload(details),
+            ...this.createResultPayload(details),
+          },
+        ),
+      );
+      return;
+    }
+
+    if (Math.random() >= (this.options.logSuccessSampleRate ?? 1)) {
+      return;
+    }
+
+    this.write(
+      this.options.logLevels?.success ?? 'log',
       this.createLogMessage<OperationSuccessLogMessage>(
         `"${operationType}" succeeded in ${duration}ms`,
         {
           name: operationType,
           type: 'success',
           duration,
+          ...this.createDetailsPayload(details),
+          ...this.createResultPayload(details),
         },
       ),
     );
@@ -92,8 +346,13 @@ class OperationLogger implements OperationBuilderLogger<any, any> {
   public logFailure(
     exception: OperationFailedException<any, any>,
     duration: number,
+    details: OperationLogDetails = {},
   ): void {
-    this.logger.error(
+    const validationErrors =
+      exception.getValidationErrors() ?? exception.getResultValidationErrors();
+
+    this.write(
+      this.getFailureLogLevel(exception),
       this.createLogMessage<OperationFailedLogMessage>(
         `"${exception.operation.constructor.name}" failed after ` +
           `${duration}ms with code "${exception.code}" and a reason ` +
@@ -104,22 +363,165 @@ class OperationLogger implements OperationBuilderLogger<any, any> {
           duration,
           errorCode: exception.code,
           errorMessage: exception.message,
+          ...(validationErrors && { validationErrors }),
+          ...this.createDetailsPayload({
+            operation: exception.operation,
+            execution: exception.execution,
+            ...details,
+          }),
         },
       ),
     );
   }
+
+  public logInvalidResult(
+    exception: OperationFailedException<any, any>,
+    details: OperationLogDetails = {},
+  ): void {
+    const operationName = exception.operation.constructor.name;
+
+    this.write(
+      this.options.logLevels?.invalidResult ?? 'warn',
+      this.createLogMessage<OperationInvalidResultLogMessage>(
+        `"${operationName}" returned an invalid result with a reason ` +
+          `"${exception.message}"`,
+        {
+          name: operationName,
+          type: 'invalid-result',
+          errorCode: exception.code,
+          errorMessage: exception.message,
+          validationErrors: exception.getResultValidationErrors() ?? [],
+          ...this.createDetailsPayload({
+            operation: exception.operation,
+            ...details,
+          }),
+        },
+      ),
+    );
+  }
+
+  /**
+   * Writes the log message with the logger method of the given level.
+   */
+  private write(level: OperationLogLevel, message: OperationLog<any>): void {
+    if (level) {
+      this.logger[level]?.(message);
+    }
+  }
+
+  /**
+   * Resolves the log level of the failure by its error code.
+   */
+  private getFailureLogLevel(
+    exception: OperationFailedException<any, any>,
+  ): OperationLogLevel {
+    const levels = this.options.logLevels ?? {};
+    const { errorCodes } =
+      exception.constructor as OperationFailedExceptionFactory;
+
+    if (levels.codes?.[exception.code] !== undefined) {
+      return levels.codes[exception.code];
+    }
+
+    switch (exception.code) {
+      case errorCodes.INVALID_OPERATION:
+        return levels.invalid ?? 'error';
+      case errorCodes.HANDLER_NOT_FOUND:
+        return levels.handlerNotFound ?? 'error';
+      case errorCodes.INTERNAL_HANDLER_ERROR:
+        return levels.internalError ?? 'error';
+      default:
+        return levels.failure ?? 'error';
+    }
+  }
+
+  /**
+   * Picks the known execution details into the log payload.
+   */
+  private createDetailsPayload(
+    details: OperationLogDetails,
+  ): Pick<
+    OperationSuccessLogMessage,
+    | 'attempts'
+    | 'cache'
+    | 'payload'
+    | 'operationId'
+    | 'correlationId'
+    | 'causationId'
+    | 'depth'
+  > {
+    return {
+      ...details.execution,
+      ...(details.attempts !== undefined && { attempts: details.attempts }),
+      ...(details.cache !== undefined && { cache: details.cache }),
+      ...(details.operation &&
+        this.getLogOptions(details.operation).payload && {
+          payload: OperationLogger.serializePayload(details.operation),
+        }),
+    };
+  }
+
+  /**
+   * Picks the result summary into the log payload if the operation logs it.
+   */
+  private createResultPayload(
+    details: OperationLogDetails,
+  ): Pick<OperationSuccessLogMessage, 'result'> {
+    return details.operation &&
+      'result' in details &&
+      this.getLogOptions(details.operation).result
+      ? {
+          result: OperationLogger.summarizeResult(
+            details.result,
+            this.options.logResultMaxLength ?? 200,
+          ),
+        }
+      : {};
+  }
+
+  /**
+   * Resolves the log options of the operation decorator, falling back to
+   * the module options.
+   */
+  private getLogOptions(operation: object): Required<Operation.LogOptions> {
+    const log = this.getMetadata(operation)?.log;
+
+    return {
+      payload: log?.payload ?? this.options.logPayload ?? false,
+      result: log?.result ?? this.options.logResult ?? false,
+    };
+  }
+
+  /**
+   * Reads the decorator metadata of the operation.
+   */
+  private getMetadata(operation: object): Operation.Metadata | undefined {
+    const decorator = this.operationKind === 'command' ? Command : Query;
+
+    return decorator.metadata.get(operation.constructor as Constructor<object>);
+  }
 }
 
 @Injectable()
 export class CommandLogger extends OperationLogger {
-  constructor(@Optional() logger: Logger = new Logger('cqrs')) {
-    super(logger, 'command');
+  constructor(
+    @Optional() logger?: Logger,
+    @Optional()
+    @Inject(CQRS_FACTORY_MODULE_OPTIONS)
+    options?: CqrsFactoryModuleOptions,
+  ) {
+    super(OperationLogger.resolveLogger(logger, options), 'command', options);
   }
 }
 
 @Injectable()
 export class QueryLogger extends OperationLogger {
-  constructor(@Optional() logger: Logger = new Logger('cqrs')) {
-    super(logger, 'query');
+  constructor(
+    @Optional() logger?: Logger,
+    @Optional()
+    @Inject(CQRS_FACTORY_MODULE_OPTIONS)
+    options?: CqrsFactoryModuleOptions,
+  ) {
+    super(OperationLogger.resolveLogger(logger, options), 'query', options);
   }
 }
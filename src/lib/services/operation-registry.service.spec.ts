@@ -0,0 +1,220 @@
+import { Type } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import {
+  CommandHandler as NestCommandHandler,
+  QueryHandler as NestQueryHandler,
+} from '@nestjs/cqrs';
+import { InstanceWrapper } from '@nestjs/core/injector/instance-wrapper';
+import { Command, CommandHandler, Query, QueryHandler } from '../decorators';
+import {
+  CommandFailedException,
+  OperationFailedException,
+  OperationVerificationException,
+} from '../exceptions';
+import { OperationRegistry } from './operation-registry.service';
+
+describe('(Unit) OperationRegistry', () => {
+  function createRegistry(
+    providers: Type<unknown>[] = [],
+    strict = false,
+  ): OperationRegistry {
+    const discoveryService = {
+      getProviders: () =>
+        providers.map((metatype) => ({ metatype }) as InstanceWrapper),
+    } as unknown as DiscoveryService;
+    const registry = new OperationRegistry(discoveryService, { strict });
+    registry.onModuleInit();
+
+    return registry;
+  }
+
+  it('should describe a declared command', () => {
+    // Arrange
+    class CreateUserFailed extends CommandFailedException<CreateUser> {
+      public static errorCodes = {
+        ...CommandFailedException.errorCodes,
+        USER_EXISTS: 'USER_EXISTS',
+      };
+    }
+    @Command({ throws: CreateUserFailed, description: 'Creates a user' })
+    class CreateUser {}
+    // Act
+    const descriptor = createRegistry().get('CreateUser');
+    // Assert
+    expect(descriptor).toEqual(
+      expect.objectContaining({
+        kind: 'command',
+        name: 'CreateUser',
+        operationCtor: CreateUser,
+        handlerCtor: undefined,
+        exceptionFactory: CreateUserFailed,
+        description: 'Creates a user',
+      }),
+    );
+    expect(descriptor?.errorCodes).toHaveProperty('USER_EXISTS');
+  });
+
+  it('should link a discovered handler to its operation', () => {
+    // Arrange
+    @Command()
+    class DeleteUser {}
+    @CommandHandler(DeleteUser)
+    class DeleteUserHandler {}
+    // Act
+    const descriptor = createRegistry([DeleteUserHandler]).get('DeleteUser');
+    // Assert
+    expect(descriptor?.handlerCtor).toBe(DeleteUserHandler);
+  });
+
+  it('should link a handler decorated by @nestjs/cqrs to its operation', () => {
+    // Arrange
+    @Query()
+    class GetAddress {}
+    @NestQueryHandler(GetAddress)
+    class GetAddressHandler {}
+    // Act
+    const descriptor = createRegistry([GetAddressHandler]).get('GetAddress');
+    // Assert
+    expect(descriptor?.handlerCtor).toBe(GetAddressHandler);
+  });
+
+  it('should list the operations of the given kind', () => {
+    // Arrange
+    @Query()
+    class ListUsers {}
+    // Act
+    const queries = createRegistry().list('query');
+    // Assert
+    expect(queries.map((descriptor) => descriptor.operationCtor)).toContain(
+      ListUsers,
+    );
+    expect(queries.every((descriptor) => descriptor.kind === 'query')).toBe(
+      true,
+    );
+  });
+
+  it('should return undefined for an unknown operation', () => {
+    // Arrange
+    const registry = createRegistry();
+    // Act
+    const descriptor = registry.get('UnknownOperation');
+    // Assert
+    expect(descriptor).toBeUndefined();
+  });
+
+  it('should export the schemas of the operations of the given kind', () => {
+    // Arrange
+    @Query()
+    class GetCustomer {}
+    // Act
+    const schema = createRegistry().toJsonSchema('query');
+    // Assert
+    expect(schema.$defs).toHaveProperty(GetCustomer.name);
+    expect(schema.$defs).not.toHaveProperty('CreateUser');
+  });
+
+  it('should resolve the exceptions restored from JSON', () => {
+    // Arrange
+    class ArchiveUserFailed extends CommandFailedException<ArchiveUser> {}
+    @Command({ throws: ArchiveUserFailed })
+    class ArchiveUser {}
+    const json = JSON.parse(
+      JSON.stringify(
+        ArchiveUserFailed.HandlerNotFound(new ArchiveUser(), new Error()),
+      ),
+    );
+    // Act
+    const exception = OperationFailedException.fromJSON(json, createRegistry());
+    // Assert
+    expect(exception).toBeInstanceOf(ArchiveUserFailed);
+    expect(exception.operation).toBeInstanceOf(ArchiveUser);
+  });
+
+  describe('#verify()', () => {
+    it('should report an operation without a handler', () => {
+      // Arrange
+      @Query()
+      class GetOrder {}
+      const registry = createRegistry();
+      // Act
+      const issues = registry.verify();
+      // Assert
+      expect(issues.missingHandlers).toContain(GetOrder.name);
+    });
+
+    it('should report a handler of an undecorated operation', () => {
+      // Arrange
+      class GetInvoice {}
+      @QueryHandler(GetInvoice)
+      class GetInvoiceHandler {}
+      const registry = createRegistry([GetInvoiceHandler]);
+      // Act
+      const issues = registry.verify();
+      // Assert
+      expect(issues.undecoratedOperations).toEqual([
+        { handler: 'GetInvoiceHandler', operation: 'GetInvoice' },
+      ]);
+    });
+
+    it('should not report an operation handled by a @nestjs/cqrs handler', () => {
+      // Arrange
+      @Command()
+      class PackOrder {}
+      @NestCommandHandler(PackOrder)
+      class PackOrderHandler {}
+      const registry = createRegistry([PackOrderHandler]);
+      // Act
+      const issues = registry.verify();
+      // Assert
+      expect(issues.missingHandlers).not.toContain(PackOrder.name);
+    });
+
+    it('should not report a @nestjs/cqrs handler of a plain operation', () => {
+      // Arrange
+      class RefreshCache {}
+      @NestCommandHandler(RefreshCache)
+      class RefreshCacheHandler {}
+      const registry = createRegistry([RefreshCacheHandler]);
+      // Act
+      const issues = registry.verify();
+      // Assert
+      expect(issues.undecoratedOperations).toEqual([]);
+    });
+
+    it('should report an operation with multiple handlers', () => {
+      // Arrange
+      @Command()
+      class CancelOrder {}
+      @CommandHandler(CancelOrder)
+      class CancelOrderHandler {}
+      @CommandHandler(CancelOrder)
+      class LegacyCancelOrderHandler {}
+      const registry = createRegistry([
+        CancelOrderHandler,
+        LegacyCancelOrderHandler,
+      ]);
+      // Act
+      const issues = registry.verify();
+      // Assert
+      expect(issues.duplicateHandlers).toEqual([
+        {
+          operation: 'CancelOrder',
+          handlers: ['CancelOrderHandler', 'LegacyCancelOrderHandler'],
+        },
+      ]);
+    });
+  });
+
+  describe('#onModuleInit()', () => {
+    it('should fail in the strict mode when an operation has no handler', () => {
+      // Arrange
+      @Command()
+      class ShipOrder {}
+      // Act
+      const act = () => createRegistry([], true);
+      // Assert
+      expect(act).toThrow(OperationVerificationException);
+      expect(act).toThrow(ShipOrder.name);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleInit,
+  Optional,
+  Type,
+} from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { Constructor } from 'type-fest';
+import {
+  Command,
+  CommandHandler,
+  Operation,
+  Query,
+  QueryHandler,
+} from '../decorators';
+import {
+  OperationVerificationException,
+  OperationVerificationIssues,
+} from '../exceptions';
+import {
+  CQRS_FACTORY_MODULE_OPTIONS,
+  CqrsFactoryModuleOptions,
+} from '../cqrs-module.options';
+import { JsonSchema, toJsonSchemaBundle } from '../schema';
+
+export type OperationKind = 'command' | 'query';
+
+// Metadata keys of the `@nestjs/cqrs` handler decorators.
+const NEST_COMMAND_HANDLER_METADATA = '__commandHandler__';
+const NEST_QUERY_HANDLER_METADATA = '__queryHandler__';
+
+/**
+ * Describes a declared operation for the introspection purposes.
+ */
+export interface OperationDescriptor {
+  kind: OperationKind;
+  /**
+   * The operation type. (The name of the operation class.)
+   */
+  name: string;
+  operationCtor: Constructor<object>;
+  /**
+   * The handler class registered in the application or `undefined` if the
+   * operation has no handler.
+   */
+  handlerCtor?: Type<unknown>;
+  exceptionFactory: Operation.ExceptionFactory<any, any>;
+  /**
+   * Error codes of the exception the operation may throw.
+   */
+  errorCodes: Record<string, string>;
+  description?: string;
+  metadata: Command.Metadata | Query.Metadata;
+}
+
+/**
+ * Lists the commands and queries declared in the application together with
+ * their handlers discovered among the application providers.
+ */
+@Injectable()
+export class OperationRegistry implements OnModuleInit {
+  private readonly descriptors = new Map<string, OperationDescriptor>();
+
+  private readonly handlers = new Map<Constructor<object>, Type<unknown>[]>();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    @Optional()
+    @Inject(CQRS_FACTORY_MODULE_OPTIONS)
+    private readonly options: CqrsFactoryModuleOptions = {},
+  ) {}
+
+  public onModuleInit(): void {
+    this.descriptors.clear();
+    this.handlers.clear();
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      this.registerHandler(wrapper.metatype as Type<unknown> | undefined);
+    }
+
+    this.register('command', Command);
+    this.register('query', Query);
+
+    if (this.options.strict) {
+      const issues = this.verify();
+
+      if (OperationVerificationException.hasIssues(issues)) {
+        throw new OperationVerificationException(issues);
+      }
+    }
+  }
+
+  /**
+   * Returns all declared operations.
+   */
+  public list(kind?: OperationKind): OperationDescriptor[] {
+    const descriptors = [...this.descriptors.values()];
+
+    return kind
+      ? descriptors.filter((descriptor) => descriptor.kind === kind)
+      : descriptors;
+  }
+
+  /**
+   * Returns the operation of the given type or `undefined` if there is
+   * no such operation.
+   */
+  public get(name: string): OperationDescriptor | undefined {
+    return this.descriptors.get(name);
+  }
+
+  /**
+   * Returns a JSON Schema document defining all declared operations in its
+   * `$defs` under the operation types.
+   */
+  public toJsonSchema(kind?: OperationKind): JsonSchema {
+    return toJsonSchemaBundle(
+      this.list(kind).map((descriptor) => descriptor.operationCtor),
+    );
+  }
+
+  /**
+   * Cross-references the declared operations with the discovered handlers.
+   */
+  public verify(): OperationVerificationIssues {
+    const issues: OperationVerificationIssues = {
+      missingHandlers: [],
+      undecoratedOperations: [],
+      duplicateHandlers: [],
+    };
+
+    for (const descriptor of this.descriptors.values()) {
+      if (!descriptor.handlerCtor) {
+        issues.missingHandlers.push(descriptor.name);
+      }
+    }
+
+    for (const [operationCtor, handlerCtors] of this.handlers) {
+      if (
+        !Command.metadata.has(operationCtor) &&
+        !Query.metadata.has(operationCtor)
+      ) {
+        // Plain `@nestjs/cqrs` handlers may handle plain operations.
+        issues.undecoratedOperations.push(
+          ...handlerCtors.filter(isOperationHandler).map((handlerCtor) => ({
+            handler: handlerCtor.name,
+            operation: operationCtor.name,
+          })),
+        );
+      }
+
+      if (handlerCtors.length > 1) {
+        issues.duplicateHandlers.push({
+          operation: operationCtor.name,
+          handlers: handlerCtors.map((handlerCtor) => handlerCtor.name),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private registerHandler(handlerCtor: Type<unknown> | undefined): void {
+    const operationCtor = handlerCtor
+      ? getHandledOperation(handlerCtor)
+      : undefined;
+
+    if (!handlerCtor || !operationCtor) {
+      return;
+    }
+
+    const handlerCtors = this.handlers.get(operationCtor) ?? [];
+
+    // The same handler may be provided by several modules.
+    if (!handlerCtors.includes(handlerCtor)) {
+      handlerCtors.push(handlerCtor);
+    }
+
+    this.handlers.set(operationCtor, handlerCtors);
+  }
+
+  private register(
+    kind: OperationKind,
+    decorator: Command.Decorator | Query.Decorator,
+  ): void {
+    for (const operationCtor of decorator.targets) {
+      const metadata = decorator.metadata.get(operationCtor);
+
+      if (!metadata) {
+        continue;
+      }
+
+      this.descriptors.set(metadata.type, {
+        kind,
+        name: metadata.type,
+        operationCtor,
+        handlerCtor: this.handlers.get(operationCtor)?.[0],
+        exceptionFactory: metadata.exceptionFactory,
+        errorCodes: { ...metadata.exceptionFactory.errorCodes },
+        description: metadata.description,
+        metadata,
+      });
+    }
+  }
+}
+
+function isOperationHandler(handlerCtor: Type<unknown>): boolean {
+  return (
+    CommandHandler.metadata.has(handlerCtor) ||
+    QueryHandler.metadata.has(handlerCtor)
+  );
+}
+
+/**
+ * Returns the operation class handled by the handler decorated by this
+ * library or directly by `@nestjs/cqrs`.
+ */
+function getHandledOperation(
+  handlerCtor: Type<unknown>,
+): Constructor<object> | undefined {
+  return (
+    CommandHandler.metadata.get(handlerCtor)?.operationCtor ??
+    QueryHandler.metadata.get(handlerCtor)?.operationCtor ??
+    Reflect.getMetadata(NEST_COMMAND_HANDLER_METADATA, handlerCtor) ??
+    Reflect.getMetadata(NEST_QUERY_HANDLER_METADATA, handlerCtor)
+  );
+}
@@ -0,0 +1,62 @@
+import { computeRetryDelay, waitForRetry } from './operation-retry';
+
+describe('(Unit) Operation retry', () => {
+  describe('computeRetryDelay()', () => {
+    it('should use a fixed delay by default', () => {
+      // Act
+      const delays = [1, 2, 3].map((attempt) =>
+        computeRetryDelay({ attempts: 4, delay: 50 }, attempt),
+      );
+      // Assert
+      expect(delays).toEqual([50, 50, 50]);
+    });
+
+    it('should double the delay with an exponential backoff', () => {
+      // Act
+      const delays = [1, 2, 3].map((attempt) =>
+        computeRetryDelay(
+          { attempts: 4, delay: 50, backoff: 'exponential' },
+          attempt,
+        ),
+      );
+      // Assert
+      expect(delays).toEqual([50, 100, 200]);
+    });
+
+    it('should randomize the exponential delay with a jitter backoff', () => {
+      // Arrange
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      // Act
+      const delay = computeRetryDelay(
+        { attempts: 4, delay: 50, backoff: 'jitter' },
+        3,
+      );
+      // Assert
+      expect(delay).toBe(100);
+      jest.mocked(Math.random).mockRestore();
+    });
+
+    it('should limit the delay by the maximal delay', () => {
+      // Act
+      const delay = computeRetryDelay(
+        { attempts: 10, delay: 50, backoff: 'exponential', maxDelay: 300 },
+        8,
+      );
+      // Assert
+      expect(delay).toBe(300);
+    });
+  });
+
+  describe('waitForRetry()', () => {
+    it('should reject with the abort reason when aborted', async () => {
+      // Arrange
+      const abortController = new AbortController();
+      const reason = new Error('Cancelled');
+      // Act
+      const wait = waitForRetry(10_000, abortController.signal);
+      abortController.abort(reason);
+      // Assert
+      await expect(wait).rejects.toBe(reason);
+    });
+  });
+});
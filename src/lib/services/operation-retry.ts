@@ -0,0 +1,77 @@
+import { OperationFailedExceptionFactory } from '../exceptions';
+import { Operation } from '../decorators';
+import { OperationErrorMapping, mapToOperationException } from '../middlewares';
+
+const DEFAULT_RETRY_DELAY = 100;
+
+/**
+ * Computes the delay in milliseconds before the next attempt of a failed
+ * operation.
+ */
+export function computeRetryDelay(
+  retry: Operation.RetryOptions,
+  attempt: number,
+): number {
+  const delay = retry.delay ?? DEFAULT_RETRY_DELAY;
+  const exponentialDelay = delay * 2 ** (attempt - 1);
+  let nextDelay: number;
+
+  switch (retry.backoff) {
+    case 'exponential':
+      nextDelay = exponentialDelay;
+      break;
+    case 'jitter':
+      nextDelay = Math.random() * exponentialDelay;
+      break;
+    default:
+      nextDelay = delay;
+  }
+
+  return Math.min(nextDelay, retry.maxDelay ?? Infinity);
+}
+
+/**
+ * Decides whether a failed attempt of the operation should be retried.
+ */
+export function shouldRetryOperation<O extends object>(
+  retry: Operation.RetryOptions,
+  error: unknown,
+  operation: O,
+  exceptionFactory: OperationFailedExceptionFactory<O, any>,
+  errorMappings: OperationErrorMapping[] = [],
+): boolean {
+  if (typeof retry.retryOn === 'function') {
+    return retry.retryOn(error);
+  }
+
+  const retryOn = retry.retryOn ?? [
+    exceptionFactory.errorCodes.INTERNAL_HANDLER_ERROR,
+  ];
+  const exception = mapToOperationException(
+    error,
+    operation,
+    exceptionFactory,
+    errorMappings,
+  );
+
+  return retryOn.includes(exception.code);
+}
+
+/**
+ * Waits for the delay, or rejects with the abort reason once the signal
+ * is aborted.
+ */
+export function waitForRetry(delay: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,115 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { IsEmail, IsUUID } from 'class-validator';
+import { Command, Query } from '../decorators';
+import { CommandFailedException, QueryFailedException } from '../exceptions';
+import { CommandFactory, QueryFactory } from '../services';
+import { CqrsFactoryTestingModule } from './cqrs-factory-testing.module';
+import { CqrsFactoryTesting } from './cqrs-factory-testing.service';
+
+describe('(Unit) CqrsFactoryTestingModule', () => {
+  @Command()
+  class CreateUser {
+    @IsEmail()
+    public email!: string;
+  }
+
+  @Query()
+  class GetUser {
+    @IsUUID()
+    public id!: string;
+  }
+
+  const userId = '0b6f3f4e-6a8a-4e43-9b3e-4d5b0a1f2c3d';
+
+  let app: INestApplicationContext;
+  let testing: CqrsFactoryTesting;
+
+  beforeEach(async () => {
+    app = await NestFactory.createApplicationContext(
+      CqrsFactoryTestingModule.forRoot(),
+      { logger: false },
+    );
+    testing = app.get(CqrsFactoryTesting);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should execute the command with the stub result', async () => {
+    // Arrange
+    testing.whenCommand(CreateUser).resolve('id');
+    // Act
+    const result = await app
+      .get(CommandFactory)
+      .create(CreateUser)
+      .email('john@doe.cz')
+      .execute();
+    // Assert
+    expect(result).toBe('id');
+    testing.expectCommandExecuted(CreateUser, { email: 'john@doe.cz' });
+  });
+
+  it('should still validate the command', async () => {
+    // Arrange
+    testing.whenCommand(CreateUser).resolve('id');
+    // Act
+    const act = () =>
+      app.get(CommandFactory).create(CreateUser).email('john').execute();
+    // Assert
+    await expect(act).rejects.toMatchObject({
+      code: CommandFailedException.errorCodes.INVALID_OPERATION,
+    });
+    expect(testing.built).toEqual([
+      { kind: 'command', operation: expect.any(CreateUser) },
+    ]);
+    expect(testing.built[0].operation).toEqual({ email: 'john' });
+    expect(testing.executed).toEqual([]);
+  });
+
+  it('should record a query which is only built', async () => {
+    // Act
+    const query = await app
+      .get(QueryFactory)
+      .create(GetUser)
+      .id(userId)
+      .build();
+    // Assert
+    expect(testing.built).toEqual([{ kind: 'query', operation: query }]);
+    expect(testing.executed).toEqual([]);
+  });
+
+  it('should still validate the query', async () => {
+    // Act
+    const act = () => app.get(QueryFactory).create(GetUser).id('1').execute();
+    // Assert
+    await expect(act).rejects.toMatchObject({
+      code: QueryFailedException.errorCodes.INVALID_OPERATION,
+    });
+    expect(testing.executed).toEqual([]);
+  });
+
+  it('should map the error thrown by the stub', async () => {
+    // Arrange
+    testing.whenQuery(GetUser).reject(new Error('Connection lost'));
+    // Act
+    const act = () =>
+      app.get(QueryFactory).create(GetUser).id(userId).execute();
+    // Assert
+    await expect(act).rejects.toMatchObject({
+      code: QueryFailedException.errorCodes.INTERNAL_HANDLER_ERROR,
+    });
+    testing.expectQueryExecuted(GetUser, { id: userId });
+  });
+
+  it('should fail an operation without a stub as not handled', async () => {
+    // Act
+    const act = () =>
+      app.get(QueryFactory).create(GetUser).id(userId).execute();
+    // Assert
+    await expect(act).rejects.toMatchObject({
+      code: QueryFailedException.errorCodes.HANDLER_NOT_FOUND,
+    });
+  });
+});
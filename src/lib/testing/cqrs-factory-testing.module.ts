@@ -0,0 +1,40 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { CqrsFactoryModule } from '../cqrs-module';
+import { CqrsFactoryModuleOptions } from '../cqrs-module.options';
+import { CqrsFactoryTesting } from './cqrs-factory-testing.service';
+
+/**
+ * Replaces the `CqrsFactoryModule` in the tests. The factories build and
+ * validate the operations as usual, but the handlers are replaced with the
+ * stubs of the `CqrsFactoryTesting` provider.
+ */
+@Module({})
+export class CqrsFactoryTestingModule {
+  /**
+   * Registers the factories globally with the stub executors. The operation
+   * logging is disabled unless a `logger` is given.
+   */
+  public static forRoot(
+    options: Omit<
+      CqrsFactoryModuleOptions,
+      'commandExecutor' | 'queryExecutor'
+    > = {},
+  ): DynamicModule {
+    const testing = new CqrsFactoryTesting();
+
+    return {
+      global: true,
+      module: CqrsFactoryTestingModule,
+      imports: [
+        CqrsFactoryModule.forRoot({
+          logger: false,
+          ...options,
+          commandExecutor: testing.commandExecutor,
+          queryExecutor: testing.queryExecutor,
+        }),
+      ],
+      providers: [{ provide: CqrsFactoryTesting, useValue: testing }],
+      exports: [CqrsFactoryTesting],
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { AssertionError } from 'assert';
+import { CommandHandlerNotFoundException } from '@nestjs/cqrs';
+import { CqrsFactoryTesting } from './cqrs-factory-testing.service';
+
+describe('(Unit) CqrsFactoryTesting', () => {
+  class Address {
+    constructor(public city: string) {}
+  }
+
+  class CreateUser {
+    public email!: string;
+    public address?: Address;
+  }
+
+  class GetUser {
+    public id!: string;
+  }
+
+  describe('#whenCommand()', () => {
+    it('should resolve the command with the stub result', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      testing.whenCommand(CreateUser).resolve('id');
+      // Act
+      const result = await testing.commandExecutor.execute(new CreateUser());
+      // Assert
+      expect(result).toBe('id');
+    });
+
+    it('should reject the command with the stub error', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      const error = new Error('Custom error');
+      testing.whenCommand(CreateUser).reject(error);
+      // Act
+      const act = () => testing.commandExecutor.execute(new CreateUser());
+      // Assert
+      await expect(act).rejects.toBe(error);
+    });
+
+    it('should execute the command with the stub function', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      testing
+        .whenCommand(CreateUser)
+        .call((command) => `created ${command.email}`);
+      const command = Object.assign(new CreateUser(), { email: 'a@b.cz' });
+      // Act
+      const result = await testing.commandExecutor.execute(command);
+      // Assert
+      expect(result).toBe('created a@b.cz');
+    });
+  });
+
+  describe('#expectCommandExecuted()', () => {
+    it('should return the command executed with the properties', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      testing.whenCommand(CreateUser).resolve('id');
+      const command = Object.assign(new CreateUser(), {
+        email: 'a@b.cz',
+        address: new Address('Prague'),
+      });
+      await testing.commandExecutor.execute(command);
+      // Act
+      const executed = testing.expectCommandExecuted(CreateUser, {
+        email: 'a@b.cz',
+        address: { city: 'Prague' },
+      });
+      // Assert
+      expect(executed).toBe(command);
+    });
+
+    it('should fail if the command was executed with other properties', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      testing.whenCommand(CreateUser).resolve('id');
+      await testing.commandExecutor.execute(
+        Object.assign(new CreateUser(), { email: 'a@b.cz' }),
+      );
+      // Act
+      const act = () =>
+        testing.expectCommandExecuted(CreateUser, { email: 'c@d.cz' });
+      // Assert
+      expect(act).toThrow(AssertionError);
+      expect(act).toThrow(
+        'Expected the command "CreateUser" to be executed with ' +
+          '{"email":"c@d.cz"}, but it was executed with {"email":"a@b.cz"}',
+      );
+    });
+
+    it('should fail if the operation was executed as a query', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      testing.whenQuery(GetUser).resolve('John');
+      await testing.queryExecutor.execute(new GetUser());
+      // Act
+      const act = () => testing.expectCommandExecuted(GetUser);
+      // Assert
+      expect(act).toThrow(
+        'Expected the command "GetUser" to be executed with {}, but it was ' +
+          'never executed',
+      );
+    });
+  });
+
+  describe('#commandExecutor', () => {
+    it('should fail a command without a stub as not handled', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      // Act
+      const act = () => testing.commandExecutor.execute(new CreateUser());
+      // Assert
+      await expect(act).rejects.toThrow(CommandHandlerNotFoundException);
+      expect(testing.executed).toEqual([
+        { kind: 'command', operation: expect.any(CreateUser) },
+      ]);
+    });
+  });
+
+  describe('#reset()', () => {
+    it('should remove the stubs and the recorded operations', async () => {
+      // Arrange
+      const testing = new CqrsFactoryTesting();
+      testing.whenQuery(GetUser).resolve('John');
+      testing.queryExecutor.onBuilt?.(new GetUser());
+      await testing.queryExecutor.execute(new GetUser());
+      // Act
+      testing.reset();
+      // Assert
+      expect(testing.built).toEqual([]);
+      expect(testing.executed).toEqual([]);
+      await expect(
+        testing.queryExecutor.execute(new GetUser()),
+      ).rejects.toThrow();
+    });
+  });
+});
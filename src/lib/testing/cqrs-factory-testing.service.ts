@@ -0,0 +1,243 @@
+import { Injectable } from '@nestjs/common';
+import {
+  CommandHandlerNotFoundException,
+  QueryHandlerNotFoundException,
+} from '@nestjs/cqrs';
+import { instanceToPlain } from 'class-transformer';
+import { AssertionError } from 'assert';
+import { isDeepStrictEqual } from 'util';
+import { Constructor } from 'type-fest';
+import { OperationExecutor } from '../services/operation-builder.service';
+import { ResultOf } from '../results/returns';
+
+/**
+ * An operation built or executed by the stub executors.
+ */
+export type OperationExecution = {
+  kind: 'command' | 'query';
+  operation: object;
+};
+
+/**
+ * The result of the operation class registered by `whenCommand()` or
+ * `whenQuery()`.
+ */
+export class OperationStub<O extends object, R = unknown> {
+  private handler?: (operation: O) => R | Promise<R>;
+
+  /**
+   * Resolves every execution of the operation with the result.
+   */
+  public resolve(result: R): this {
+    return this.call(() => result);
+  }
+
+  /**
+   * Rejects every execution of the operation with the error. An
+   * `OperationFailedException` is rethrown as is, other errors are mapped
+   * like the errors of a real handler.
+   */
+  public reject(error: unknown): this {
+    return this.call(() => {
+      throw error;
+    });
+  }
+
+  /**
+   * Executes the operation with the function instead of a handler.
+   */
+  public call(handler: (operation: O) => R | Promise<R>): this {
+    this.handler = handler;
+    return this;
+  }
+
+  public async execute(operation: O): Promise<R> {
+    /* istanbul ignore next */
+    if (!this.handler) {
+      throw new Error(
+        `The stub of "${operation.constructor.name}" has no result`,
+      );
+    }
+
+    return this.handler(operation);
+  }
+}
+
+/**
+ * Replaces the handlers of the operations with stubs and records every built
+ * operation. The operations are still built, validated and mapped by the real
+ * factories. The operations reaching the handler are recorded as executed as
+ * well.
+ */
+@Injectable()
+export class CqrsFactoryTesting {
+  private readonly stubs = new Map<Constructor<object>, OperationStub<any>>();
+
+  private readonly builds: OperationExecution[] = [];
+
+  private readonly executions: OperationExecution[] = [];
+
+  /**
+   * The executor of all commands. (Passed as the `commandExecutor` option)
+   */
+  public readonly commandExecutor: OperationExecutor<any, any> = {
+    execute: (command) => this.execute('command', command),
+    onBuilt: (command) =>
+      this.builds.push({ kind: 'command', operation: command }),
+  };
+
+  /**
+   * The executor of all queries. (Passed as the `queryExecutor` option)
+   */
+  public readonly queryExecutor: OperationExecutor<any, any> = {
+    execute: (query) => this.execute('query', query),
+    onBuilt: (query) => this.builds.push({ kind: 'query', operation: query }),
+  };
+
+  /**
+   * The operations built so far in the order of building, including the
+   * invalid ones and the ones never executed.
+   */
+  public get built(): readonly OperationExecution[] {
+    return this.builds;
+  }
+
+  /**
+   * The operations executed so far in the order of execution. (The invalid
+   * and the only built operations are not included.)
+   */
+  public get executed(): readonly OperationExecution[] {
+    return this.executions;
+  }
+
+  /**
+   * Registers a stub of the command handler. A command without a stub fails
+   * with the `HANDLER_NOT_FOUND` error code.
+   */
+  public whenCommand<C extends object, R = ResultOf<C>>(
+    commandCtor: Constructor<C>,
+  ): OperationStub<C, R> {
+    return this.createStub(commandCtor);
+  }
+
+  /**
+   * Registers a stub of the query handler. A query without a stub fails with
+   * the `HANDLER_NOT_FOUND` error code.
+   */
+  public whenQuery<Q extends object, R = ResultOf<Q>>(
+    queryCtor: Constructor<Q>,
+  ): OperationStub<Q, R> {
+    return this.createStub(queryCtor);
+  }
+
+  /**
+   * Asserts that a command of the class was executed with the given
+   * properties and returns the first matching command.
+   */
+  public expectCommandExecuted<C extends object>(
+    commandCtor: Constructor<C>,
+    properties: Partial<C> = {},
+  ): C {
+    return this.expectExecuted('command', commandCtor, properties);
+  }
+
+  /**
+   * Asserts that a query of the class was executed with the given properties
+   * and returns the first matching query.
+   */
+  public expectQueryExecuted<Q extends object>(
+    queryCtor: Constructor<Q>,
+    properties: Partial<Q> = {},
+  ): Q {
+    return this.expectExecuted('query', queryCtor, properties);
+  }
+
+  /**
+   * Removes the registered stubs and the recorded operations.
+   */
+  public reset(): void {
+    this.stubs.clear();
+    this.builds.length = 0;
+    this.executions.length = 0;
+  }
+
+  private createStub<O extends object, R>(
+    operationCtor: Constructor<O>,
+  ): OperationStub<O, R> {
+    const stub = new OperationStub<O, R>();
+    this.stubs.set(operationCtor, stub);
+
+    return stub;
+  }
+
+  private async execute(
+    kind: OperationExecution['kind'],
+    operation: object,
+  ): Promise<unknown> {
+    this.executions.push({ kind, operation });
+
+    const stub = this.stubs.get(operation.constructor as Constructor<object>);
+
+    if (stub) {
+      return stub.execute(operation);
+    } else if (kind === 'command') {
+      throw new CommandHandlerNotFoundException(operation.constructor.name);
+    } else {
+      throw new QueryHandlerNotFoundException(operation.constructor.name);
+    }
+  }
+
+  private expectExecuted<O extends object>(
+    kind: OperationExecution['kind'],
+    operationCtor: Constructor<O>,
+    properties: Partial<O>,
+  ): O {
+    const operations = this.executions
+      .filter((execution) => execution.kind === kind)
+      .map(({ operation }) => operation)
+      .filter(
+        (operation): operation is O => operation instanceof operationCtor,
+      );
+    const match = operations.find((operation) =>
+      CqrsFactoryTesting.matchesProperties(operation, properties),
+    );
+
+    if (!match) {
+      const actual =
+        operations.length > 0
+          ? `it was executed with ${operations
+              .map((operation) => JSON.stringify(operation))
+              .join(', ')}`
+          : 'it was never executed';
+
+      throw new AssertionError({
+        message:
+          `Expected the ${kind} "${operationCtor.name}" to be executed with ` +
+          `${JSON.stringify(properties)}, but ${actual}`,
+        expected: properties,
+        actual: operations,
+      });
+    }
+
+    return match;
+  }
+
+  /**
+   * Compares the properties as plain values, so the nested class instances
+   * are equal to the plain objects.
+   */
+  private static matchesProperties(
+    operation: object,
+    properties: object,
+  ): boolean {
+    return Object.entries(properties).every(([key, value]) =>
+      isDeepStrictEqual(
+        instanceToPlain(
+          { value: Reflect.get(operation, key) },
+          { ignoreDecorators: true },
+        ),
+        instanceToPlain({ value }, { ignoreDecorators: true }),
+      ),
+    );
+  }
+}
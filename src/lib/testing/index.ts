@@ -0,0 +1,2 @@
+export * from './cqrs-factory-testing.service';
+export * from './cqrs-factory-testing.module';
@@ -0,0 +1,37 @@
+export type CqrsSpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A span of the operation execution opened by the `CqrsTracer`.
+ */
+export interface CqrsSpan {
+  setAttributes(attributes: CqrsSpanAttributes): void;
+  /**
+   * Marks the span as failed with the error.
+   */
+  setError(error: unknown): void;
+  end(): void;
+}
+
+/**
+ * Opens the spans of the executed operations. The abstract class allows to
+ * plug in any tracing library.
+ */
+export abstract class CqrsTracer {
+  /**
+   * Opens a span. The span is a child of the `parent` span if given.
+   */
+  public abstract startSpan(
+    name: string,
+    parent?: CqrsSpan,
+    attributes?: CqrsSpanAttributes,
+  ): CqrsSpan;
+
+  /**
+   * Runs the callback with the span as the active one, so the spans opened
+   * by the callee, e.g. of a database client, become its children. (Only
+   * runs the callback by default.)
+   */
+  public withSpan<T>(_span: CqrsSpan, callback: () => T): T {
+    return callback();
+  }
+}
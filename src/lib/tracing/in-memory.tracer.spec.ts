@@ -0,0 +1,61 @@
+import { InMemorySpan, InMemoryTracer } from './in-memory.tracer';
+
+describe('(Unit) InMemoryTracer', () => {
+  describe('#startSpan()', () => {
+    it('should keep the opened span with its parent and attributes', () => {
+      // Arrange
+      const tracer = new InMemoryTracer();
+      const parent = tracer.startSpan('CreateUser');
+      // Act
+      const span = tracer.startSpan('validate CreateUser', parent, {
+        'cqrs.kind': 'command',
+      });
+      // Assert
+      expect(tracer.spans).toEqual([parent, span]);
+      expect(span.parent).toBe(parent);
+      expect(span.attributes).toEqual({ 'cqrs.kind': 'command' });
+    });
+
+    it('should record the error and the end of the span', () => {
+      // Arrange
+      const tracer = new InMemoryTracer();
+      const span = tracer.startSpan('CreateUser');
+      const error = new Error('Custom error');
+      // Act
+      span.setAttributes({ 'cqrs.error_code': 'USER_EXISTS' });
+      span.setError(error);
+      span.end();
+      // Assert
+      expect(span).toMatchObject({
+        attributes: { 'cqrs.error_code': 'USER_EXISTS' },
+        error,
+        ended: true,
+      });
+    });
+  });
+
+  describe('#withSpan()', () => {
+    it('should run the callback', () => {
+      // Arrange
+      const tracer = new InMemoryTracer();
+      const span = new InMemorySpan('handle CreateUser');
+      // Act
+      const result = tracer.withSpan(span, () => 42);
+      // Assert
+      expect(result).toBe(42);
+      expect(span.attributes).toEqual({});
+    });
+  });
+
+  describe('#reset()', () => {
+    it('should remove the kept spans', () => {
+      // Arrange
+      const tracer = new InMemoryTracer();
+      tracer.startSpan('CreateUser');
+      // Act
+      tracer.reset();
+      // Assert
+      expect(tracer.spans).toEqual([]);
+    });
+  });
+});
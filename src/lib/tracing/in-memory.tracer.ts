@@ -0,0 +1,53 @@
+import { CqrsSpan, CqrsSpanAttributes, CqrsTracer } from './cqrs.tracer';
+
+/**
+ * A span kept in the memory by the `InMemoryTracer`.
+ */
+export class InMemorySpan implements CqrsSpan {
+  public error?: unknown;
+
+  public ended = false;
+
+  constructor(
+    public readonly name: string,
+    public readonly parent?: CqrsSpan,
+    public readonly attributes: CqrsSpanAttributes = {},
+  ) {}
+
+  public setAttributes(attributes: CqrsSpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  public setError(error: unknown): void {
+    this.error = error;
+  }
+
+  public end(): void {
+    this.ended = true;
+  }
+}
+
+/**
+ * Keeps the opened spans in the memory, so the tests can assert them.
+ */
+export class InMemoryTracer extends CqrsTracer {
+  public readonly spans: InMemorySpan[] = [];
+
+  public startSpan(
+    name: string,
+    parent?: CqrsSpan,
+    attributes?: CqrsSpanAttributes,
+  ): InMemorySpan {
+    const span = new InMemorySpan(name, parent, { ...attributes });
+    this.spans.push(span);
+
+    return span;
+  }
+
+  /**
+   * Removes all kept spans.
+   */
+  public reset(): void {
+    this.spans.length = 0;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './cqrs.tracer';
+export * from './in-memory.tracer';
+export * from './open-telemetry.tracer';
@@ -0,0 +1,129 @@
+import { mock } from 'jest-mock-extended';
+import { InMemorySpan } from './in-memory.tracer';
+import {
+  OpenTelemetryApiLike,
+  OpenTelemetrySpanLike,
+  OpenTelemetryTracer,
+  OpenTelemetryTracerLike,
+} from './open-telemetry.tracer';
+
+describe('(Unit) OpenTelemetryTracer', () => {
+  const activeContext = { name: 'active' };
+  const parentContext = { name: 'parent' };
+
+  const createApi = (): OpenTelemetryApiLike => ({
+    context: {
+      active: () => activeContext,
+      with: jest.fn((_context, callback) => callback()),
+    },
+    trace: { setSpan: jest.fn().mockReturnValue(parentContext) },
+  });
+
+  describe('#startSpan()', () => {
+    it('should start a span in the active context', () => {
+      // Arrange
+      const otelTracer = mock<OpenTelemetryTracerLike>();
+      const tracer = new OpenTelemetryTracer(otelTracer, createApi());
+      // Act
+      tracer.startSpan('CreateUser', undefined, { 'cqrs.kind': 'command' });
+      // Assert
+      expect(otelTracer.startSpan).toHaveBeenCalledWith(
+        'CreateUser',
+        { attributes: { 'cqrs.kind': 'command' } },
+        activeContext,
+      );
+    });
+
+    it('should start a child span in the context of the parent', () => {
+      // Arrange
+      const otelParent = mock<OpenTelemetrySpanLike>();
+      const otelTracer = mock<OpenTelemetryTracerLike>();
+      otelTracer.startSpan.mockReturnValue(otelParent);
+      const api = createApi();
+      const tracer = new OpenTelemetryTracer(otelTracer, api);
+      const parent = tracer.startSpan('CreateUser');
+      // Act
+      tracer.startSpan('validate CreateUser', parent);
+      // Assert
+      expect(api.trace.setSpan).toHaveBeenCalledWith(activeContext, otelParent);
+      expect(otelTracer.startSpan).toHaveBeenLastCalledWith(
+        'validate CreateUser',
+        { attributes: undefined },
+        parentContext,
+      );
+    });
+
+    it('should record the error with the error status', () => {
+      // Arrange
+      const otelSpan = mock<OpenTelemetrySpanLike>();
+      const otelTracer = mock<OpenTelemetryTracerLike>();
+      otelTracer.startSpan.mockReturnValue(otelSpan);
+      const tracer = new OpenTelemetryTracer(otelTracer, createApi());
+      const span = tracer.startSpan('CreateUser');
+      const error = new Error('Custom error');
+      // Act
+      span.setError(error);
+      span.end();
+      // Assert
+      expect(otelSpan.recordException).toHaveBeenCalledWith(error);
+      expect(otelSpan.setStatus).toHaveBeenCalledWith({
+        code: 2,
+        message: 'Custom error',
+      });
+      expect(otelSpan.end).toHaveBeenCalled();
+    });
+
+    it('should record a thrown value which is not an error', () => {
+      // Arrange
+      const otelSpan = mock<OpenTelemetrySpanLike>();
+      const otelTracer = mock<OpenTelemetryTracerLike>();
+      otelTracer.startSpan.mockReturnValue(otelSpan);
+      const tracer = new OpenTelemetryTracer(otelTracer, createApi());
+      const span = tracer.startSpan('CreateUser');
+      // Act
+      span.setError('Connection lost');
+      // Assert
+      expect(otelSpan.recordException).toHaveBeenCalledWith('Connection lost');
+      expect(otelSpan.setStatus).toHaveBeenCalledWith({
+        code: 2,
+        message: 'Connection lost',
+      });
+    });
+  });
+
+  describe('#withSpan()', () => {
+    it('should run the callback in the context of the span', () => {
+      // Arrange
+      const otelSpan = mock<OpenTelemetrySpanLike>();
+      const otelTracer = mock<OpenTelemetryTracerLike>();
+      otelTracer.startSpan.mockReturnValue(otelSpan);
+      const api = createApi();
+      const tracer = new OpenTelemetryTracer(otelTracer, api);
+      const span = tracer.startSpan('handle CreateUser');
+      // Act
+      const result = tracer.withSpan(span, () => 42);
+      // Assert
+      expect(result).toBe(42);
+      expect(api.trace.setSpan).toHaveBeenCalledWith(activeContext, otelSpan);
+      expect(api.context.with).toHaveBeenCalledWith(
+        parentContext,
+        expect.any(Function),
+      );
+    });
+
+    it('should only run the callback with a span of another tracer', () => {
+      // Arrange
+      const api = createApi();
+      const tracer = new OpenTelemetryTracer(
+        mock<OpenTelemetryTracerLike>(),
+        api,
+      );
+      const span = new InMemorySpan('handle CreateUser');
+      // Act
+      const result = tracer.withSpan(span, () => 42);
+      // Assert
+      expect(result).toBe(42);
+      expect(api.context.with).not.toHaveBeenCalled();
+    });
+  });
+});
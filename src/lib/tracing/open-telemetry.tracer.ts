@@ -0,0 +1,103 @@
+import { CqrsSpan, CqrsSpanAttributes, CqrsTracer } from './cqrs.tracer';
+
+// The OpenTelemetry API is described structurally, so the package is not
+// a dependency of the library.
+
+/**
+ * The used part of the OpenTelemetry `Span`.
+ */
+export interface OpenTelemetrySpanLike {
+  setAttributes(attributes: CqrsSpanAttributes): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The used part of the OpenTelemetry `Tracer`.
+ */
+export interface OpenTelemetryTracerLike {
+  startSpan(
+    name: string,
+    options?: { attributes?: CqrsSpanAttributes },
+    context?: unknown,
+  ): OpenTelemetrySpanLike;
+}
+
+/**
+ * The used part of the OpenTelemetry API. (The `context` and `trace` exports
+ * of the `@opentelemetry/api` package)
+ */
+export interface OpenTelemetryApiLike {
+  context: {
+    active(): unknown;
+    with<T>(context: unknown, callback: () => T): T;
+  };
+  trace: {
+    setSpan(context: unknown, span: OpenTelemetrySpanLike): unknown;
+  };
+}
+
+// The value of the `SpanStatusCode.ERROR`.
+const SPAN_STATUS_ERROR = 2;
+
+class OpenTelemetrySpan implements CqrsSpan {
+  constructor(public readonly span: OpenTelemetrySpanLike) {}
+
+  public setAttributes(attributes: CqrsSpanAttributes): void {
+    this.span.setAttributes(attributes);
+  }
+
+  public setError(error: unknown): void {
+    this.span.recordException(error instanceof Error ? error : String(error));
+    this.span.setStatus({
+      code: SPAN_STATUS_ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  public end(): void {
+    this.span.end();
+  }
+}
+
+/**
+ * Opens the spans with an OpenTelemetry tracer. The spans of the outermost
+ * operations are children of the active span, e.g. of the HTTP request. The
+ * handler runs with its span active.
+ */
+export class OpenTelemetryTracer extends CqrsTracer {
+  constructor(
+    private readonly tracer: OpenTelemetryTracerLike,
+    private readonly api: OpenTelemetryApiLike,
+  ) {
+    super();
+  }
+
+  public startSpan(
+    name: string,
+    parent?: CqrsSpan,
+    attributes?: CqrsSpanAttributes,
+  ): CqrsSpan {
+    const activeContext = this.api.context.active();
+    const context =
+      parent instanceof OpenTelemetrySpan
+        ? this.api.trace.setSpan(activeContext, parent.span)
+        : activeContext;
+
+    return new OpenTelemetrySpan(
+      this.tracer.startSpan(name, { attributes }, context),
+    );
+  }
+
+  public withSpan<T>(span: CqrsSpan, callback: () => T): T {
+    if (!(span instanceof OpenTelemetrySpan)) {
+      return callback();
+    }
+
+    return this.api.context.with(
+      this.api.trace.setSpan(this.api.context.active(), span.span),
+      callback,
+    );
+  }
+}